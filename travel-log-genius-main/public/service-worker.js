@@ -8,6 +8,11 @@ self.addEventListener('activate', event => {
 });
 
 self.addEventListener('fetch', event => {
+  // Only cache the app shell; API calls must always reach the network so synced data is never stale
+  if (new URL(event.request.url).origin !== self.location.origin) {
+    return;
+  }
+
   event.respondWith(
     caches.open('travel-log-cache').then(cache => {
       return cache.match(event.request).then(response => {
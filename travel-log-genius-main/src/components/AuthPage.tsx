@@ -86,7 +86,7 @@ export const AuthPage = ({ onAuthSuccess }: AuthPageProps) => {
       }
 
       if (data.user) {
-        // Insert profile row for new user
+        // Insert profile row for new user; roles are granted server-side in user_roles
         await supabase.from('profiles').insert([
           { id: data.user.id, consent: false }
         ]);
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MessageSquare } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { TripReview, respondToClarification } from "@/lib/trip-review";
+
+interface ClarificationRequestProps {
+  tripId: string | number;
+  review: TripReview;
+  onAnswered: () => void;
+}
+
+export const ClarificationRequest = ({ tripId, review, onAnswered }: ClarificationRequestProps) => {
+  const { toast } = useToast();
+  const [answer, setAnswer] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSend = async () => {
+    if (!answer.trim()) return;
+    setIsSending(true);
+    const { error } = await respondToClarification(tripId, answer.trim());
+    setIsSending(false);
+
+    if (error) {
+      console.error('Clarification reply error:', error);
+      toast({
+        title: "Reply Not Sent",
+        description: error.message || "Could not send your reply. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Reply Sent",
+      description: "Thank you. The research team will review your answer."
+    });
+    setAnswer("");
+    onAnswered();
+  };
+
+  return (
+    <div className="rounded-lg border border-warning/50 bg-warning/10 p-3 space-y-2 text-sm">
+      <p className="flex items-start space-x-2">
+        <MessageSquare className="w-4 h-4 text-warning mt-0.5" />
+        <span><span className="font-medium">The research team asks:</span> {review.clarification_request}</span>
+      </p>
+      <div className="flex gap-2">
+        <Input value={answer} onChange={(e) => setAnswer(e.target.value)} placeholder="Your answer" />
+        <Button size="sm" onClick={handleSend} disabled={isSending || !answer.trim()}>
+          {isSending ? "Sending..." : "Reply"}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">You can also edit the trip directly if something was recorded wrongly.</p>
+    </div>
+  );
+};
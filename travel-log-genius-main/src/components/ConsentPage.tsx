@@ -2,15 +2,18 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Shield, Users, Database, MapPin } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Shield, Users, Database, MapPin, Info } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
+import { CONSENT_VERSION, ConsentStatus, recordConsent } from "@/lib/consent";
 
 interface ConsentPageProps {
   onConsentGiven: () => void;
+  previousStatus?: ConsentStatus;
 }
 
-export const ConsentPage = ({ onConsentGiven }: ConsentPageProps) => {
+export const ConsentPage = ({ onConsentGiven, previousStatus }: ConsentPageProps) => {
   const { toast } = useToast();
   const [consent, setConsent] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -32,18 +35,16 @@ export const ConsentPage = ({ onConsentGiven }: ConsentPageProps) => {
         return;
       }
 
-      // Update user profile with consent
-      const { error } = await supabase
-        .from('profiles')
-        .upsert({ 
-          id: user.id, 
-          consent: true,
-          updated_at: new Date().toISOString()
-        });
+      const { error } = await recordConsent(user.id);
 
-      if (error && error.code !== '42P01') { // Ignore table doesn't exist error for now
+      if (error) {
         console.error('Consent update error:', error);
-        // Continue anyway - table might not exist yet
+        toast({
+          title: "Consent Not Recorded",
+          description: error.message || "Could not save your consent. Please try again.",
+          variant: "destructive"
+        });
+        return;
       }
 
       toast({
@@ -55,8 +56,11 @@ export const ConsentPage = ({ onConsentGiven }: ConsentPageProps) => {
       onConsentGiven();
     } catch (error) {
       console.error('Consent error:', error);
-      // Continue anyway for demo purposes
-      onConsentGiven();
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred. Please try again.",
+        variant: "destructive"
+      });
     } finally {
       setIsLoading(false);
     }
@@ -76,6 +80,24 @@ export const ConsentPage = ({ onConsentGiven }: ConsentPageProps) => {
         </CardHeader>
 
         <CardContent className="space-y-6">
+          {previousStatus === "outdated" && (
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>
+                We have updated how your data is collected and used. Please review and confirm your consent to continue.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {previousStatus === "withdrawn" && (
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>
+                You have withdrawn your consent and no further travel data is being collected. You can give consent again below to resume.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="space-y-4">
             <h3 className="font-semibold text-lg">What data will be collected?</h3>
             
@@ -126,6 +148,9 @@ export const ConsentPage = ({ onConsentGiven }: ConsentPageProps) => {
                 I consent to the collection and use of my travel data for transportation planning research by NATPAC
               </label>
             </div>
+            <p className="text-xs text-muted-foreground mt-3">
+              Consent version {CONSENT_VERSION}. You can withdraw at any time from your dashboard.
+            </p>
           </div>
         </CardContent>
 
@@ -2,29 +2,66 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { TripForm } from "./TripForm";
-import { MapPin, Clock, Users, Car, Plus, BarChart3, LogOut } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { TripForm, TripFormMode } from "./TripForm";
+import { DetectedTripsPanel } from "./DetectedTripsPanel";
+import { DiaryDaysPanel } from "./DiaryDaysPanel";
+import { TripCalendarPanel } from "./TripCalendarPanel";
+import { ClarificationRequest } from "./ClarificationRequest";
+import { HouseholdQuestionnaire } from "./HouseholdQuestionnaire";
+import { TripLegChain } from "./TripLegChain";
+import { MapPin, Clock, Users, Car, Plus, BarChart3, LogOut, Target, CloudOff, RefreshCw, Pencil, Copy, Trash2, ShieldOff, Navigation, Home } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
+import { useOutbox } from "@/hooks/use-outbox";
+import { useTripRecorder } from "@/hooks/use-trip-recorder";
+import { TripRecord, formatPurpose } from "@/lib/trips";
+import { clearQueuedTrips, removeQueuedTrip } from "@/lib/outbox";
+import { withdrawConsent } from "@/lib/consent";
+import { deleteTrip } from "@/lib/trip-sync";
+import { clearResolvedDetections, detectedTripToRecord, resolveDetection } from "@/lib/trace-segmentation";
+import { getPlaceKey } from "@/lib/gazetteer";
+import { formatParty, getPartySize, getTravelParty } from "@/lib/companions";
+import { getTripReview } from "@/lib/trip-review";
 
-interface Trip {
-  id: string;
-  trip_number?: string;
-  origin: string;
-  destination: string;
-  mode: string;
-  start_time?: string;
-  end_time?: string;
-  companions?: string;
-  created_at?: string;
+interface Trip extends TripRecord {
+  pending?: boolean;
 }
 
-export const Dashboard = () => {
+interface DashboardProps {
+  onConsentWithdrawn: () => void;
+}
+
+export const Dashboard = ({ onConsentWithdrawn }: DashboardProps) => {
   const { toast } = useToast();
   const [showForm, setShowForm] = useState(false);
+  const [formTrip, setFormTrip] = useState<{ mode: TripFormMode; trip: Trip; detectionId?: string } | null>(null);
+  const [tripToDelete, setTripToDelete] = useState<Trip | null>(null);
+  const [confirmWithdraw, setConfirmWithdraw] = useState(false);
+  const [showHousehold, setShowHousehold] = useState(false);
   const [trips, setTrips] = useState<Trip[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [user, setUser] = useState<any>(null);
+  const { pending, syncNow } = useOutbox(user?.id, () => fetchTrips());
+  // Recorders live here rather than in the form and panel that show them, so GPS keeps recording while they unmount
+  const tripRecorder = useTripRecorder("trip");
+  const dayRecorder = useTripRecorder("day");
+
+  // Trips still waiting in the offline outbox, minus any the server already has
+  const syncedIds = new Set(trips.map(t => t.client_id).filter(Boolean));
+  const pendingTrips: Trip[] = pending
+    .filter(entry => !syncedIds.has(entry.client_id))
+    .map(entry => ({ ...entry.trip, id: entry.client_id, trip_legs: entry.legs, pending: true }));
+  const allTrips = [...pendingTrips, ...trips];
 
   useEffect(() => {
     getUser();
@@ -43,8 +80,10 @@ export const Dashboard = () => {
 
       const { data, error } = await supabase
         .from('trips')
-        .select('*')
+        // Participants get the clarification exchange only, never the reviewers' notes or corrections
+        .select('*, trip_legs(*), trip_reviews:participant_trip_reviews(*)')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error && error.code !== '42P01') { // Ignore table doesn't exist error
@@ -71,10 +110,87 @@ export const Dashboard = () => {
   };
 
   const handleTripSaved = () => {
-    setShowForm(false);
+    if (formTrip?.detectionId) resolveDetection(formTrip.detectionId);
+    closeForm();
     fetchTrips(); // Refresh trips list
   };
 
+  const openForm = (mode?: TripFormMode, trip?: Trip, detectionId?: string) => {
+    setShowHousehold(false);
+    setFormTrip(mode && trip ? { mode, trip, detectionId } : null);
+    setShowForm(true);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setFormTrip(null);
+  };
+
+  const handleDelete = async () => {
+    if (!tripToDelete) return;
+    const trip = tripToDelete;
+    setTripToDelete(null);
+
+    if (trip.pending) {
+      try {
+        await removeQueuedTrip(trip.id);
+      } catch (error) {
+        console.error('Queued trip delete error:', error);
+        toast({
+          title: "Delete Failed",
+          description: error instanceof Error ? error.message : "Could not remove the unsynced trip.",
+          variant: "destructive"
+        });
+      }
+      return;
+    }
+
+    const { error } = await deleteTrip(trip);
+    if (error) {
+      console.error('Trip delete error:', error);
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Could not delete the trip.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Trip Deleted",
+      description: "The trip has been removed from your diary."
+    });
+    fetchTrips();
+  };
+
+  const handleWithdrawConsent = async () => {
+    setConfirmWithdraw(false);
+    if (!user) return;
+
+    const { error } = await withdrawConsent(user.id);
+    if (error) {
+      console.error('Consent withdrawal error:', error);
+      toast({
+        title: "Withdrawal Failed",
+        description: error.message || "Could not withdraw consent. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Nothing recorded offline may be uploaded once consent is gone
+    await clearQueuedTrips(user.id);
+    tripRecorder.stop();
+    dayRecorder.stop();
+    clearResolvedDetections();
+    toast({
+      title: "Consent Withdrawn",
+      description: "We have stopped collecting your travel data and excluded it from research exports."
+    });
+    onConsentWithdrawn();
+  };
+
   const handleLogout = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) {
@@ -116,6 +232,29 @@ export const Dashboard = () => {
           {user && (
             <p className="text-base text-muted-foreground mt-2">Welcome, <span className="font-semibold text-primary">{user.email}</span></p>
           )}
+          <div className="flex items-center">
+            <Button
+              variant="link"
+              size="sm"
+              onClick={() => {
+                closeForm();
+                setShowHousehold(true);
+              }}
+              className="text-muted-foreground"
+            >
+              <Home className="w-4 h-4 mr-1" />
+              Household details
+            </Button>
+            <Button
+              variant="link"
+              size="sm"
+              onClick={() => setConfirmWithdraw(true)}
+              className="text-muted-foreground"
+            >
+              <ShieldOff className="w-4 h-4 mr-1" />
+              Withdraw consent
+            </Button>
+          </div>
           <Button
             variant="outline"
             onClick={handleLogout}
@@ -134,7 +273,7 @@ export const Dashboard = () => {
                 <BarChart3 className="w-6 h-6 text-white" />
               </div>
               <div>
-                <p className="text-3xl font-bold text-gray-800">{trips.length}</p>
+                <p className="text-3xl font-bold text-gray-800">{allTrips.length}</p>
                 <p className="text-muted-foreground">Total Trips</p>
               </div>
             </CardContent>
@@ -146,7 +285,10 @@ export const Dashboard = () => {
                 <MapPin className="w-6 h-6 text-white" />
               </div>
               <div>
-                <p className="text-3xl font-bold text-gray-800">{new Set(trips.flatMap(t => [t.origin, t.destination])).size}</p>
+                <p className="text-3xl font-bold text-gray-800">{new Set(allTrips.flatMap(t => [
+                  getPlaceKey(t.origin, t.origin_place_id),
+                  getPlaceKey(t.destination, t.destination_place_id)
+                ])).size}</p>
                 <p className="text-muted-foreground">Unique Locations</p>
               </div>
             </CardContent>
@@ -158,18 +300,34 @@ export const Dashboard = () => {
                 <Users className="w-6 h-6 text-white" />
               </div>
               <div>
-                <p className="text-3xl font-bold text-gray-800">{trips.filter(t => t.companions).length}</p>
+                <p className="text-3xl font-bold text-gray-800">{allTrips.filter(t => getPartySize(getTravelParty(t)) > 1).length}</p>
                 <p className="text-muted-foreground">Group Trips</p>
               </div>
             </CardContent>
           </Card>
         </div>
 
+        {showHousehold && user && (
+          <div className="max-w-2xl mx-auto animate-fade-in-up">
+            <HouseholdQuestionnaire
+              userId={user.id}
+              onSaved={() => setShowHousehold(false)}
+              onCancel={() => setShowHousehold(false)}
+            />
+          </div>
+        )}
+
+        {!showForm && user && (
+          <div className="max-w-2xl mx-auto">
+            <DiaryDaysPanel userId={user.id} trips={allTrips} onAddTrip={() => openForm()} />
+          </div>
+        )}
+
         {/* Add New Trip Button */}
         {!showForm && (
           <div className="text-center animate-fade-in-up delay-300">
             <Button 
-              onClick={() => setShowForm(true)}
+              onClick={() => openForm()}
               className="bg-gradient-to-tr from-blue-500 via-purple-500 to-pink-500 hover:scale-105 transition-transform shadow-lg text-white text-lg px-8 py-3 rounded-full"
               size="lg"
             >
@@ -179,14 +337,27 @@ export const Dashboard = () => {
           </div>
         )}
 
+        {!showForm && (
+          <div className="max-w-2xl mx-auto">
+            <DetectedTripsPanel recorder={dayRecorder} onReview={(trip) => openForm("create", detectedTripToRecord(trip), trip.id)} />
+          </div>
+        )}
+
         {/* Trip Form */}
         {showForm && (
           <div className="max-w-2xl mx-auto animate-fade-in-up delay-400">
-            <TripForm onTripSaved={handleTripSaved} />
+            <TripForm
+              key={formTrip ? `${formTrip.mode}-${formTrip.detectionId ?? formTrip.trip.id}` : "new"}
+              onTripSaved={handleTripSaved}
+              initialTrip={formTrip?.trip}
+              mode={formTrip?.mode}
+              existingTrips={allTrips}
+              recorder={tripRecorder}
+            />
             <div className="text-center mt-4">
               <Button 
                 variant="outline" 
-                onClick={() => setShowForm(false)}
+                onClick={closeForm}
                 className="hover:scale-105 transition-transform"
               >
                 Cancel
@@ -195,6 +366,9 @@ export const Dashboard = () => {
           </div>
         )}
 
+        {/* Day-by-day Timeline */}
+        <TripCalendarPanel trips={allTrips} />
+
         {/* Recent Trips */}
         <Card className="shadow-xl mt-8 animate-fade-in-up delay-500">
           <CardHeader>
@@ -202,8 +376,14 @@ export const Dashboard = () => {
               <Clock className="w-5 h-5 text-blue-500" />
               <span>Recent Trips</span>
             </CardTitle>
-            <CardDescription>
-              Your recently recorded travel data
+            <CardDescription className="flex items-center justify-between">
+              <span>Your recently recorded travel data</span>
+              {pendingTrips.length > 0 && (
+                <Button variant="outline" size="sm" onClick={syncNow}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Sync {pendingTrips.length} pending
+                </Button>
+              )}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -212,14 +392,14 @@ export const Dashboard = () => {
                 <Car className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-muted-foreground">Loading your trips...</p>
               </div>
-            ) : trips.length === 0 ? (
+            ) : allTrips.length === 0 ? (
               <div className="text-center py-8 animate-fade-in">
                 <Car className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-muted-foreground">No trips recorded yet</p>
               </div>
             ) : (
               <div className="space-y-4">
-                {trips.map((trip) => (
+                {allTrips.map((trip) => (
                   <div key={trip.id} className="border rounded-lg p-4 space-y-3 shadow hover:shadow-lg transition-shadow duration-200 animate-fade-in-up">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-3">
@@ -230,8 +410,31 @@ export const Dashboard = () => {
                         {trip.trip_number && (
                           <Badge variant="outline">{trip.trip_number}</Badge>
                         )}
+                        {trip.pending && (
+                          <Badge variant="secondary">
+                            <CloudOff className="w-3 h-3 mr-1" />
+                            Pending sync
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <Button variant="ghost" size="icon" title="Edit trip" onClick={() => openForm("edit", trip)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" title="Duplicate as new trip" onClick={() => openForm("duplicate", trip)}>
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" title="Delete trip" onClick={() => setTripToDelete(trip)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
                       </div>
                     </div>
+
+                    {getTripReview(trip)?.status === "clarification_requested" && (
+                      <ClarificationRequest tripId={trip.id} review={getTripReview(trip)} onAnswered={fetchTrips} />
+                    )}
+
+                    <TripLegChain legs={trip.trip_legs} />
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
                       <div className="flex items-center space-x-2">
@@ -265,11 +468,30 @@ export const Dashboard = () => {
                       </div>
                     )}
                     
-                    {trip.companions && (
+                    {trip.purpose && (
+                      <div className="flex items-center space-x-2 text-sm">
+                        <Target className="w-4 h-4 text-blue-500" />
+                        <span className="font-medium">Purpose:</span>
+                        <span>{formatPurpose(trip.purpose, trip.purpose_other)}</span>
+                        {trip.activity_duration_minutes != null && (
+                          <span className="text-muted-foreground">({trip.activity_duration_minutes} min at destination)</span>
+                        )}
+                      </div>
+                    )}
+
+                    {trip.route_distance_km != null && (
+                      <div className="flex items-center space-x-2 text-sm">
+                        <Navigation className="w-4 h-4 text-blue-500" />
+                        <span className="font-medium">GPS route:</span>
+                        <span>{trip.route_distance_km.toFixed(1)} km</span>
+                      </div>
+                    )}
+
+                    {getTravelParty(trip) && (
                       <div className="flex items-center space-x-2 text-sm">
                         <Users className="w-4 h-4 text-purple-500" />
                         <span className="font-medium">Companions:</span>
-                        <span>{trip.companions}</span>
+                        <span>{formatParty(getTravelParty(trip))}</span>
                       </div>
                     )}
                   </div>
@@ -279,6 +501,41 @@ export const Dashboard = () => {
           </CardContent>
         </Card>
       </div>
+
+      <AlertDialog open={confirmWithdraw} onOpenChange={setConfirmWithdraw}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Withdraw your consent?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No further travel data will be collected, any trips waiting to sync on this device will be discarded,
+              and your existing trips will be excluded from research exports. You can give consent again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleWithdrawConsent} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Withdraw
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!tripToDelete} onOpenChange={(open) => !open && setTripToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this trip?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {tripToDelete && `${tripToDelete.origin} → ${tripToDelete.destination} will be removed from your diary. This cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Check, Pause, Play, Radar, Trash2, X } from "lucide-react";
+import { TripRecorderState } from "@/hooks/use-trip-recorder";
+import { formatLatLon } from "@/lib/geo";
+import { reverseGeocode } from "@/lib/gazetteer";
+import { formatMode } from "@/lib/trips";
+import {
+  DetectedTrip,
+  clearResolvedDetections,
+  getResolvedDetections,
+  resolveDetection,
+  segmentTrace
+} from "@/lib/trace-segmentation";
+
+interface DetectedTripsPanelProps {
+  // The all-day recorder, owned by Dashboard so tracking carries on while a trip form is open
+  recorder: TripRecorderState;
+  onReview: (trip: DetectedTrip) => void;
+}
+
+// Background tracking samples less often than a single recorded trip to spare the battery
+const DAY_SAMPLING_INTERVAL = 30;
+
+const describePoint = (point: { lat: number; lon: number }) => reverseGeocode(point)?.name ?? formatLatLon(point);
+
+export const DetectedTripsPanel = ({ recorder, onReview }: DetectedTripsPanelProps) => {
+  const { trace, loaded, recording, error, start, stop, setPaused } = recorder;
+  const [resolved, setResolved] = useState(() => getResolvedDetections());
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => setResolved(getResolvedDetections());
+    window.addEventListener("detections-change", refresh);
+    return () => window.removeEventListener("detections-change", refresh);
+  }, []);
+
+  const detected = useMemo(
+    () => (trace ? segmentTrace(trace.points, !recording).filter(trip => !resolved.includes(trip.id)) : []),
+    [trace, recording, resolved]
+  );
+
+  const handleClear = () => {
+    setConfirmClear(false);
+    stop();
+    clearResolvedDetections();
+  };
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Radar className="w-5 h-5 text-blue-500" />
+          <span>Automatic Trip Detection</span>
+          {recording && <Badge variant="destructive">Tracking</Badge>}
+          {trace?.paused && <Badge variant="secondary">Paused</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Keep this page open while you travel. Trips are detected from your location and only saved once you confirm them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {!trace && (
+            <Button size="sm" disabled={!loaded} onClick={() => start(DAY_SAMPLING_INTERVAL)}>
+              <Play className="w-4 h-4 mr-2" />
+              Start Tracking
+            </Button>
+          )}
+          {recording && (
+            <Button size="sm" variant="outline" onClick={() => setPaused(true)}>
+              <Pause className="w-4 h-4 mr-2" />
+              Pause
+            </Button>
+          )}
+          {trace?.paused && (
+            <Button size="sm" variant="outline" onClick={() => setPaused(false)}>
+              <Play className="w-4 h-4 mr-2" />
+              Resume
+            </Button>
+          )}
+          {trace && (
+            <Button size="sm" variant="ghost" onClick={() => setConfirmClear(true)}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear Trace
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {trace && detected.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {trace.points.length} location points recorded. No finished trips to review yet.
+          </p>
+        )}
+
+        {detected.map((trip) => (
+          <div key={trip.id} className="border rounded-lg p-4 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="font-medium">
+                {describePoint(trip.origin)} → {describePoint(trip.destination)}
+              </span>
+              <span className="text-sm text-muted-foreground">
+                {format(trip.start, "HH:mm")}–{format(trip.end, "HH:mm")} · {trip.distance_km.toFixed(1)} km
+              </span>
+            </div>
+            <div className="flex flex-wrap items-center gap-1 text-sm">
+              {trip.legs.map((leg, index) => (
+                <span key={index} className="flex items-center gap-1">
+                  {index > 0 && <span className="text-muted-foreground">→</span>}
+                  <Badge variant="outline">
+                    {formatMode(leg.mode)} · {Math.round(leg.confidence * 100)}%
+                  </Badge>
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => onReview(trip)}>
+                <Check className="w-4 h-4 mr-2" />
+                Review & Save
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => resolveDetection(trip.id)}>
+                <X className="w-4 h-4 mr-2" />
+                Not a Trip
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <AlertDialog open={confirmClear} onOpenChange={setConfirmClear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clear the recorded trace?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tracking stops and the location points on this device are deleted. Trips you have not reviewed yet will be lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleClear} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Clear
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
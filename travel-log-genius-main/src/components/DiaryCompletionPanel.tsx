@@ -0,0 +1,61 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarCheck } from "lucide-react";
+import { DiaryStats } from "@/lib/diary-days";
+
+interface DiaryCompletionPanelProps {
+  stats: DiaryStats;
+}
+
+export const DiaryCompletionPanel = ({ stats }: DiaryCompletionPanelProps) => {
+
+  const figures = [
+    { label: "Completion Rate", value: `${stats.completionRate.toFixed(1)}%`, detail: `${stats.respondedDays} of ${stats.dueDays} person-days` },
+    { label: "Trips per Person-Day", value: stats.tripRate.toFixed(2), detail: "No-travel days counted as zero" },
+    { label: "Trips per Travelling Day", value: stats.mobileTripRate.toFixed(2), detail: "Days with at least one trip" },
+    { label: "No Travel", value: `${stats.immobilityRate.toFixed(1)}%`, detail: `${stats.noTravelDays} person-days declared` },
+  ];
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarCheck className="w-5 h-5 text-primary" />
+          <span>Diary Days</span>
+        </CardTitle>
+        <CardDescription>
+          {stats.participants} participants with assigned diary days. Only days that have started are counted; trip
+          rates use the trips matching the current filters.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {stats.dueDays === 0 ? (
+          <p className="text-muted-foreground">No diary days are due for the current filters</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {figures.map((figure) => (
+                <div key={figure.label} className="border rounded-lg p-4">
+                  <p className="text-2xl font-bold">{figure.value}</p>
+                  <p className="text-sm font-medium">{figure.label}</p>
+                  <p className="text-xs text-muted-foreground">{figure.detail}</p>
+                </div>
+              ))}
+            </div>
+
+            {stats.reasons.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Reasons for not travelling</p>
+                {stats.reasons.map((row) => (
+                  <div key={row.value} className="flex items-center justify-between text-sm">
+                    <span>{row.label}</span>
+                    <span className="text-muted-foreground">{row.count}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
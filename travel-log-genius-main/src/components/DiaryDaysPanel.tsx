@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CalendarCheck, CheckCircle2, Home, Plus, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { TripRecord } from "@/lib/trips";
+import {
+  DiaryDay,
+  assignDiaryDays,
+  completeDiaryDay,
+  declareNoTravel,
+  diaryStatusLabels,
+  fetchDiaryDays,
+  formatNoTravelReason,
+  getTripsForDay,
+  isDayDue,
+  noTravelReasons,
+  reopenDiaryDay
+} from "@/lib/diary-days";
+import { TripTimeline } from "./TripTimeline";
+
+interface DiaryDaysPanelProps {
+  userId: string;
+  trips: TripRecord[];
+  onAddTrip: () => void;
+}
+
+const statusVariant = (day: DiaryDay): "default" | "secondary" | "outline" =>
+  day.status === "completed" ? "default" : day.status === "no_travel" ? "secondary" : "outline";
+
+export const DiaryDaysPanel = ({ userId, trips, onAddTrip }: DiaryDaysPanelProps) => {
+  const { toast } = useToast();
+  const [days, setDays] = useState<DiaryDay[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showNoTravel, setShowNoTravel] = useState(false);
+  const [reason, setReason] = useState("");
+  const [reasonOther, setReasonOther] = useState("");
+
+  const loadDays = useCallback(async () => {
+    const { data, error } = await fetchDiaryDays(userId);
+    if (error) {
+      if (error.code !== '42P01') console.error('Diary days load error:', error);
+      setIsLoading(false);
+      return;
+    }
+
+    let loaded = (data ?? []) as DiaryDay[];
+    // First visit: the survey days start today. Another load may have assigned them first, so read them back.
+    if (loaded.length === 0) {
+      const { error: assignError } = await assignDiaryDays(userId);
+      if (assignError) {
+        console.error('Diary day assignment error:', assignError);
+      } else {
+        const { data: assigned, error: reloadError } = await fetchDiaryDays(userId);
+        if (reloadError) console.error('Diary days load error:', reloadError);
+        loaded = (assigned ?? []) as DiaryDay[];
+      }
+    }
+
+    setDays(loaded);
+    setSelected(prev => prev ?? (loaded.find(day => day.status === "assigned") ?? loaded[0])?.diary_date ?? null);
+    setIsLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadDays();
+  }, [loadDays]);
+
+  const day = days.find(d => d.diary_date === selected);
+  const dayTrips = day ? getTripsForDay(trips, day.diary_date) : [];
+  const due = day ? isDayDue(day) : false;
+
+  const respond = async (action: () => ReturnType<typeof completeDiaryDay>, title: string, description: string) => {
+    const { error } = await action();
+    if (error) {
+      console.error('Diary day update error:', error);
+      toast({
+        title: "Not Saved",
+        description: error.message || "Could not update your diary day. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({ title, description });
+    loadDays();
+  };
+
+  const handleComplete = () => {
+    if (!day) return;
+    respond(() => completeDiaryDay(day), "Day Completed", "Thank you for recording all of your trips for this day.");
+  };
+
+  const handleNoTravel = () => {
+    if (!day) return;
+    if (!reason || (reason === "other" && !reasonOther.trim())) {
+      toast({
+        title: "Missing Information",
+        description: "Please tell us why you did not travel.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setShowNoTravel(false);
+    respond(() => declareNoTravel(day, reason, reasonOther.trim()), "No Travel Recorded", "Thank you for letting us know you stayed in.");
+    setReason("");
+    setReasonOther("");
+  };
+
+  const handleReopen = () => {
+    if (!day) return;
+    respond(() => reopenDiaryDay(day), "Day Reopened", "You can add trips and complete the day again.");
+  };
+
+  if (isLoading || days.length === 0) return null;
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarCheck className="w-5 h-5 text-blue-500" />
+          <span>Your Travel Diary Days</span>
+        </CardTitle>
+        <CardDescription>
+          Please record every trip you make on these days, then mark each day complete. If you did not leave home, tell us so.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {days.map((d) => (
+            <Button
+              key={d.diary_date}
+              size="sm"
+              variant={d.diary_date === selected ? "default" : "outline"}
+              onClick={() => setSelected(d.diary_date)}
+            >
+              {format(parseISO(d.diary_date), "EEE d MMM")}
+              <Badge variant={statusVariant(d)} className="ml-2">
+                {diaryStatusLabels[d.status]}
+              </Badge>
+            </Button>
+          ))}
+        </div>
+
+        {day && (
+          <div className="space-y-4">
+            {day.status === "no_travel" ? (
+              <div className="flex items-center space-x-2 text-sm">
+                <Home className="w-4 h-4 text-muted-foreground" />
+                <span>You did not travel: {formatNoTravelReason(day.no_travel_reason, day.no_travel_reason_other)}</span>
+              </div>
+            ) : dayTrips.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {due ? "No trips recorded for this day yet." : "This diary day has not started yet."}
+              </p>
+            ) : (
+              <TripTimeline trips={dayTrips} />
+            )}
+
+            {due && (
+              <div className="flex flex-wrap gap-2">
+                {day.status === "assigned" ? (
+                  <>
+                    <Button size="sm" variant="outline" onClick={onAddTrip}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add a Trip
+                    </Button>
+                    <Button size="sm" onClick={handleComplete} disabled={dayTrips.length === 0}>
+                      <CheckCircle2 className="w-4 h-4 mr-2" />
+                      That Was All My Travel
+                    </Button>
+                    {dayTrips.length === 0 && (
+                      <Button size="sm" variant="secondary" onClick={() => setShowNoTravel(true)}>
+                        <Home className="w-4 h-4 mr-2" />
+                        I Did Not Travel
+                      </Button>
+                    )}
+                  </>
+                ) : (
+                  <Button size="sm" variant="ghost" onClick={handleReopen}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Reopen Day
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={showNoTravel} onOpenChange={setShowNoTravel}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>You did not travel on this day?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Staying in is useful information too. Please tell us the main reason.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="no_travel_reason">Reason</Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger id="no_travel_reason">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {noTravelReasons.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {reason === "other" && (
+              <div className="space-y-2">
+                <Label htmlFor="no_travel_reason_other">Please describe</Label>
+                <Input
+                  id="no_travel_reason_other"
+                  value={reasonOther}
+                  onChange={(e) => setReasonOther(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Stay open until a reason is given
+                e.preventDefault();
+                handleNoTravel();
+              }}
+            >
+              Confirm No Travel
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
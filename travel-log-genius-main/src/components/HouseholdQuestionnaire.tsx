@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Home } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  HouseholdMember,
+  HouseholdProfile,
+  Option,
+  ageBands,
+  emptyHouseholdProfile,
+  emptyMember,
+  fetchHouseholdProfile,
+  genders,
+  incomeBands,
+  isHouseholdComplete,
+  keralaDistricts,
+  occupations,
+  saveHouseholdProfile,
+  vehicleTypes
+} from "@/lib/household";
+import { getPlaceById } from "@/lib/gazetteer";
+import { PlaceAutocomplete } from "./PlaceAutocomplete";
+
+interface HouseholdQuestionnaireProps {
+  userId: string;
+  onSaved: () => void;
+  onCancel?: () => void;
+}
+
+// Keeps the member list in step with the stated household size without losing answers already given
+const resizeMembers = (members: HouseholdMember[], size: number) =>
+  size > members.length
+    ? [...members, ...Array.from({ length: size - members.length }, emptyMember)]
+    : members.slice(0, Math.max(1, size));
+
+const OptionSelect = ({ id, value, options, placeholder, onChange }: {
+  id: string;
+  value: string;
+  options: Option[];
+  placeholder: string;
+  onChange: (value: string) => void;
+}) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger id={id}>
+      <SelectValue placeholder={placeholder} />
+    </SelectTrigger>
+    <SelectContent>
+      {options.map((option) => (
+        <SelectItem key={option.value} value={option.value}>
+          {option.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export const HouseholdQuestionnaire = ({ userId, onSaved, onCancel }: HouseholdQuestionnaireProps) => {
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<HouseholdProfile>(emptyHouseholdProfile);
+  const [homePlace, setHomePlace] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchHouseholdProfile(userId).then(({ data, error }) => {
+      if (error) {
+        console.error('Household profile load error:', error);
+      } else if (data?.household_size) {
+        setProfile({ ...emptyHouseholdProfile(), ...data, vehicles: data.vehicles ?? {} });
+        setHomePlace(getPlaceById(data.home_place_id)?.name ?? "");
+      }
+      setIsLoading(false);
+    });
+  }, [userId]);
+
+  const setSize = (value: string) => {
+    const size = Math.min(20, Math.max(1, Number(value) || 1));
+    setProfile(prev => ({ ...prev, household_size: size, household_members: resizeMembers(prev.household_members, size) }));
+  };
+
+  const updateMember = <K extends keyof HouseholdMember>(index: number, field: K, value: HouseholdMember[K]) => {
+    setProfile(prev => ({
+      ...prev,
+      household_members: prev.household_members.map((member, i) => (i === index ? { ...member, [field]: value } : member))
+    }));
+  };
+
+  const setVehicles = (type: string, value: string) => {
+    setProfile(prev => ({ ...prev, vehicles: { ...prev.vehicles, [type]: Math.max(0, Number(value) || 0) } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isHouseholdComplete(profile)) {
+      toast({
+        title: "Missing Information",
+        description: "Please answer every question for each household member, plus income and home district.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await saveHouseholdProfile(userId, profile);
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Household profile save error:', error);
+      toast({
+        title: "Not Saved",
+        description: error.message || "Could not save your household details. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Household Details Saved",
+      description: "Thank you. You can update these answers at any time from your dashboard.",
+      className: "bg-success text-success-foreground"
+    });
+    onSaved();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="shadow-card">
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Home className="w-5 h-5 text-primary" />
+            <span>About Your Household</span>
+          </CardTitle>
+          <CardDescription>
+            These answers let researchers compare travel across different kinds of households. They are never shown alongside your name.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="household_size">People in your household *</Label>
+              <Input
+                id="household_size"
+                type="number"
+                min={1}
+                max={20}
+                value={profile.household_size}
+                onChange={(e) => setSize(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="income_band">Monthly household income *</Label>
+              <OptionSelect
+                id="income_band"
+                value={profile.income_band}
+                options={incomeBands}
+                placeholder="Select income band"
+                onChange={(value) => setProfile(prev => ({ ...prev, income_band: value }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {profile.household_members.map((member, index) => (
+              <div key={index} className="border rounded-lg p-4 space-y-4">
+                <span className="font-medium">{index === 0 ? "You" : `Household member ${index + 1}`}</span>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`member_${index}_age`}>Age *</Label>
+                    <OptionSelect
+                      id={`member_${index}_age`}
+                      value={member.age_band}
+                      options={ageBands}
+                      placeholder="Age band"
+                      onChange={(value) => updateMember(index, "age_band", value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`member_${index}_gender`}>Gender *</Label>
+                    <OptionSelect
+                      id={`member_${index}_gender`}
+                      value={member.gender}
+                      options={genders}
+                      placeholder="Gender"
+                      onChange={(value) => updateMember(index, "gender", value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`member_${index}_occupation`}>Occupation *</Label>
+                    <OptionSelect
+                      id={`member_${index}_occupation`}
+                      value={member.occupation}
+                      options={occupations}
+                      placeholder="Occupation"
+                      onChange={(value) => updateMember(index, "occupation", value)}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`member_${index}_licence`}
+                    checked={member.has_licence}
+                    onCheckedChange={(checked) => updateMember(index, "has_licence", checked === true)}
+                  />
+                  <Label htmlFor={`member_${index}_licence`}>Holds a driving licence</Label>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Vehicles owned by the household</Label>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {vehicleTypes.map((type) => (
+                <div key={type.value} className="space-y-1">
+                  <Label htmlFor={`vehicles_${type.value}`} className="text-xs text-muted-foreground">{type.label}</Label>
+                  <Input
+                    id={`vehicles_${type.value}`}
+                    type="number"
+                    min={0}
+                    value={profile.vehicles[type.value] ?? 0}
+                    onChange={(e) => setVehicles(type.value, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="home_zone">Home district *</Label>
+              <OptionSelect
+                id="home_zone"
+                value={profile.home_zone}
+                options={keralaDistricts.map(district => ({ value: district, label: district }))}
+                placeholder="Select district"
+                onChange={(value) => setProfile(prev => ({ ...prev, home_zone: value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="home_place">Nearest town or locality</Label>
+              <PlaceAutocomplete
+                id="home_place"
+                value={homePlace}
+                placeholder="e.g., Kakkanad"
+                onChange={(value) => {
+                  setHomePlace(value);
+                  setProfile(prev => ({ ...prev, home_place_id: null }));
+                }}
+                onSelect={(place) => {
+                  setHomePlace(place.name);
+                  setProfile(prev => ({ ...prev, home_place_id: place.id, home_zone: place.district }));
+                }}
+              />
+            </div>
+          </div>
+        </CardContent>
+
+        <CardFooter className="flex gap-2">
+          <Button type="submit" className="flex-1 bg-gradient-primary hover:bg-primary-hover transition-smooth" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Household Details"}
+          </Button>
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+        </CardFooter>
+      </form>
+    </Card>
+  );
+};
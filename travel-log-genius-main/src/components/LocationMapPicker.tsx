@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { CircleMarker, GeoJSON, MapContainer, TileLayer, Tooltip, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { MapPin, WifiOff } from "lucide-react";
+import { LatLon, STUDY_AREA_CENTER } from "@/lib/geo";
+import { keralaOutline, keralaPlaces } from "@/lib/kerala-basemap";
+
+type TripEnd = "origin" | "destination";
+
+interface LocationMapPickerProps {
+  origin: LatLon | null;
+  destination: LatLon | null;
+  onChange: (end: TripEnd, point: LatLon) => void;
+}
+
+// A few failed tiles can be transient; this many means the tile server is out of reach
+const TILE_ERROR_LIMIT = 4;
+
+// Leaflet writes colours into SVG attributes, where CSS variables do not resolve, so the theme values are spelled out
+const pinColors: Record<TripEnd, string> = {
+  origin: "hsl(201, 89%, 48%)",
+  destination: "hsl(173, 58%, 39%)"
+};
+const basemapStroke = "hsl(215, 13%, 45%)";
+
+const ClickToPlace = ({ onPick }: { onPick: (point: LatLon) => void }) => {
+  useMapEvents({
+    click: (e) => onPick({ lat: e.latlng.lat, lon: e.latlng.lng })
+  });
+  return null;
+};
+
+export const LocationMapPicker = ({ origin, destination, onChange }: LocationMapPickerProps) => {
+  const [placing, setPlacing] = useState<TripEnd>(origin ? "destination" : "origin");
+  const [useFallback, setUseFallback] = useState(!navigator.onLine);
+  const [tileErrors, setTileErrors] = useState(0);
+
+  useEffect(() => {
+    if (tileErrors >= TILE_ERROR_LIMIT) setUseFallback(true);
+  }, [tileErrors]);
+
+  const center = origin ?? destination ?? STUDY_AREA_CENTER;
+  const pins = [
+    { end: "origin" as const, point: origin, label: "Origin" },
+    { end: "destination" as const, point: destination, label: "Destination" }
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">Tap the map to place:</span>
+        {pins.map(({ end, label }) => (
+          <Button
+            key={end}
+            type="button"
+            size="sm"
+            variant={placing === end ? "default" : "outline"}
+            onClick={() => setPlacing(end)}
+          >
+            <MapPin className="w-4 h-4 mr-1" style={{ color: placing === end ? undefined : pinColors[end] }} />
+            {label}
+          </Button>
+        ))}
+        {useFallback && (
+          <Badge variant="secondary">
+            <WifiOff className="w-3 h-3 mr-1" />
+            Offline basemap
+          </Badge>
+        )}
+      </div>
+
+      <MapContainer
+        center={[center.lat, center.lon]}
+        zoom={origin || destination ? 13 : 7}
+        className="h-72 w-full rounded-lg border z-0"
+        style={useFallback ? { background: "hsl(var(--muted))" } : undefined}
+      >
+        {useFallback ? (
+          <>
+            <GeoJSON
+              data={keralaOutline}
+              style={{ color: basemapStroke, weight: 1, fillColor: "white", fillOpacity: 1 }}
+            />
+            {keralaPlaces.map((place) => (
+              <CircleMarker
+                key={place.name}
+                center={[place.lat, place.lon]}
+                radius={3}
+                pathOptions={{ color: basemapStroke, fillOpacity: 1 }}
+              >
+                <Tooltip permanent direction="right" className="text-xs">
+                  {place.name}
+                </Tooltip>
+              </CircleMarker>
+            ))}
+          </>
+        ) : (
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            eventHandlers={{ tileerror: () => setTileErrors(count => count + 1) }}
+          />
+        )}
+
+        {pins.map(({ end, point, label }) => point && (
+          <CircleMarker
+            key={end}
+            center={[point.lat, point.lon]}
+            radius={9}
+            pathOptions={{ color: "white", weight: 2, fillColor: pinColors[end], fillOpacity: 1 }}
+          >
+            <Tooltip>{label}</Tooltip>
+          </CircleMarker>
+        ))}
+
+        <ClickToPlace
+          onPick={(point) => {
+            onChange(placing, point);
+            if (placing === "origin" && !destination) setPlacing("destination");
+          }}
+        />
+      </MapContainer>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Grid3X3 } from "lucide-react";
+import { transportModes, tripPurposes } from "@/lib/trips";
+import {
+  OdEnds,
+  ZoneScheme,
+  buildOdMatrix,
+  odMatrixToRows,
+  parseZoneRules,
+  timeOfDayPeriods,
+} from "@/lib/od-matrix";
+import { downloadFile, toCsv } from "@/lib/csv";
+import { fetchResearchOdGroups } from "@/lib/research";
+import { ResearchFilters } from "@/lib/research-query";
+
+interface OdMatrixPanelProps {
+  filters: ResearchFilters;
+  refreshKey: number;
+}
+
+// The on-screen table is capped for readability; the CSV always carries every zone
+const MAX_DISPLAY_ZONES = 15;
+
+const gridSizes = ["0.01", "0.05", "0.1"];
+
+export const OdMatrixPanel = ({ filters, refreshKey }: OdMatrixPanelProps) => {
+  const [schemeType, setSchemeType] = useState<ZoneScheme["type"]>("label");
+  const [cellSize, setCellSize] = useState("0.05");
+  const [rulesText, setRulesText] = useState("");
+  const [modeSlice, setModeSlice] = useState("all");
+  const [purposeSlice, setPurposeSlice] = useState("all");
+  const [periodSlice, setPeriodSlice] = useState("all");
+  const [groups, setGroups] = useState<OdEnds[]>([]);
+
+  const scheme = useMemo<ZoneScheme>(() => {
+    if (schemeType === "grid") return { type: "grid", cellSize: Number(cellSize) };
+    if (schemeType === "mapping") return { type: "mapping", rules: parseZoneRules(rulesText) };
+    if (schemeType === "taz") return { type: "taz" };
+    return { type: "label" };
+  }, [schemeType, cellSize, rulesText]);
+
+  // Slicing and grouping happen in the database; only zone names are worked out here
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchGroups = async () => {
+      const { data, error } = await fetchResearchOdGroups(
+        filters,
+        { type: schemeType, cellSize: Number(cellSize) },
+        { mode: modeSlice, purpose: purposeSlice, period: periodSlice }
+      );
+      if (cancelled) return;
+      // Access problems are already reported by the trip query
+      if (error) {
+        if (error.code !== '42501' && error.code !== '42P01') console.error('Fetch OD matrix error:', error);
+        return;
+      }
+      setGroups(data);
+    };
+
+    fetchGroups();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, schemeType, cellSize, modeSlice, purposeSlice, periodSlice, refreshKey]);
+
+  const matrix = useMemo(() => buildOdMatrix(groups, scheme), [groups, scheme]);
+
+  const displayZones = matrix.zones.slice(0, MAX_DISPLAY_ZONES);
+
+  const exportMatrix = () => {
+    downloadFile(toCsv(odMatrixToRows(matrix), { bom: true }), "natpac_od_matrix.csv", "text/csv;charset=utf-8");
+  };
+
+  const cellStyle = (count: number) => {
+    if (!count || !matrix.max) return undefined;
+    const intensity = count / matrix.max;
+    return {
+      backgroundColor: `hsl(var(--primary) / ${(0.15 + intensity * 0.85).toFixed(2)})`,
+      color: intensity > 0.5 ? "hsl(var(--primary-foreground))" : undefined
+    };
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Grid3X3 className="w-5 h-5 text-primary" />
+            <span>Origin–Destination Matrix</span>
+          </span>
+          <Button
+            variant="outline"
+            onClick={exportMatrix}
+            disabled={matrix.zones.length === 0}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export Matrix
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          {matrix.total} trips across {matrix.zones.length} zones
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label>Zone Assignment</Label>
+            <Select value={schemeType} onValueChange={(value) => setSchemeType(value as ZoneScheme["type"])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="label">Location name</SelectItem>
+                <SelectItem value="grid">Coordinate grid</SelectItem>
+                <SelectItem value="mapping">Custom keyword zones</SelectItem>
+                <SelectItem value="taz">Traffic analysis zones</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Mode</Label>
+            <Select value={modeSlice} onValueChange={setModeSlice}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Modes</SelectItem>
+                {transportModes.map((mode) => (
+                  <SelectItem key={mode} value={mode.toLowerCase()}>
+                    {mode}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Purpose</Label>
+            <Select value={purposeSlice} onValueChange={setPurposeSlice}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Purposes</SelectItem>
+                {tripPurposes.map((purpose) => (
+                  <SelectItem key={purpose.value} value={purpose.value}>
+                    {purpose.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Time of Day</Label>
+            <Select value={periodSlice} onValueChange={setPeriodSlice}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Day</SelectItem>
+                {timeOfDayPeriods.map((period) => (
+                  <SelectItem key={period.value} value={period.value}>
+                    {period.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {schemeType === "grid" && (
+          <div className="space-y-2 max-w-xs">
+            <Label>Grid Cell Size (degrees)</Label>
+            <Select value={cellSize} onValueChange={setCellSize}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {gridSizes.map((size) => (
+                  <SelectItem key={size} value={size}>
+                    {size}°
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {schemeType === "mapping" && (
+          <div className="space-y-2">
+            <Label htmlFor="zone_rules">Zone Keywords</Label>
+            <Textarea
+              id="zone_rules"
+              value={rulesText}
+              onChange={(e) => setRulesText(e.target.value)}
+              placeholder={"One zone per line, e.g.\nErnakulam: kochi, cochin, ernakulam\nThrissur: thrissur, trichur"}
+              rows={4}
+            />
+          </div>
+        )}
+
+        {matrix.zones.length === 0 ? (
+          <p className="text-muted-foreground">No trips match the current slice</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="p-2 text-left font-medium text-muted-foreground">O \ D</th>
+                  {displayZones.map((zone) => (
+                    <th key={zone} className="p-2 font-medium whitespace-nowrap">{zone}</th>
+                  ))}
+                  <th className="p-2 font-medium">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {displayZones.map((from) => (
+                  <tr key={from}>
+                    <th className="p-2 text-left font-medium whitespace-nowrap">{from}</th>
+                    {displayZones.map((to) => {
+                      const count = matrix.counts[from]?.[to] ?? 0;
+                      return (
+                        <td key={to} className="p-2 text-center border" style={cellStyle(count)}>
+                          {count || ""}
+                        </td>
+                      );
+                    })}
+                    <td className="p-2 text-center font-medium">{matrix.rowTotals[from] ?? 0}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <th className="p-2 text-left font-medium">Total</th>
+                  {displayZones.map((zone) => (
+                    <td key={zone} className="p-2 text-center font-medium">{matrix.columnTotals[zone] ?? 0}</td>
+                  ))}
+                  <td className="p-2 text-center font-bold">{matrix.total}</td>
+                </tr>
+              </tbody>
+            </table>
+            {matrix.zones.length > MAX_DISPLAY_ZONES && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Showing the {MAX_DISPLAY_ZONES} busiest of {matrix.zones.length} zones. The exported matrix includes all zones.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { searchPlaces } from "@/lib/gazetteer";
+import { GazetteerPlace, placeKindLabels } from "@/lib/kerala-gazetteer";
+
+interface PlaceAutocompleteProps {
+  id: string;
+  value: string;
+  placeholder?: string;
+  required?: boolean;
+  onChange: (value: string) => void;
+  onSelect: (place: GazetteerPlace) => void;
+}
+
+export const PlaceAutocomplete = ({ id, value, placeholder, required, onChange, onSelect }: PlaceAutocompleteProps) => {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const suggestions = open ? searchPlaces(value) : [];
+
+  const choose = (place: GazetteerPlace) => {
+    onSelect(place);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestions.length) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      choose(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={value}
+        placeholder={placeholder}
+        required={required}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={suggestions.length > 0}
+        aria-controls={`${id}-suggestions`}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {suggestions.length > 0 && (
+        <ul
+          id={`${id}-suggestions`}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {suggestions.map((place, index) => (
+            <li
+              key={place.id}
+              role="option"
+              aria-selected={index === highlighted}
+              className={cn(
+                "flex cursor-pointer items-center justify-between rounded-sm px-2 py-1.5 text-sm",
+                index === highlighted && "bg-accent text-accent-foreground"
+              )}
+              onMouseEnter={() => setHighlighted(index)}
+              onMouseDown={(e) => {
+                // Keep focus in the input so the list is not closed by blur before the choice lands
+                e.preventDefault();
+                choose(place);
+              }}
+            >
+              <span>{place.name}</span>
+              <span className="text-xs opacity-70">
+                {placeKindLabels[place.kind]} · {place.district}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
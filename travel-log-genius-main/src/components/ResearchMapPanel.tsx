@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from "react";
+import { CircleMarker, GeoJSON, MapContainer, Polyline, TileLayer, Tooltip, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Map as MapIcon, WifiOff, X } from "lucide-react";
+import { STUDY_AREA_CENTER } from "@/lib/geo";
+import { keralaOutline } from "@/lib/kerala-basemap";
+import { formatMode } from "@/lib/trips";
+import { DistrictCount, DistrictFlowCount, MapBounds, PointCluster, buildZoneFlows, clusterCellSize, getModeColor } from "@/lib/research-map";
+import { fetchResearchMapClusters } from "@/lib/research";
+import { ResearchFilters } from "@/lib/research-query";
+
+interface ResearchMapPanelProps {
+  filters: ResearchFilters;
+  refreshKey: number;
+  districts: DistrictCount[];
+  flowCounts: DistrictFlowCount[];
+  selectedZone: string;
+  onSelectZone: (zone: string) => void;
+}
+
+// Same tolerance as the trip form's map picker before switching to the bundled outline
+const TILE_ERROR_LIMIT = 4;
+
+const MIN_FLOW_WEIGHT = 2;
+const MAX_FLOW_WEIGHT = 14;
+
+const pointColor = "hsl(201, 89%, 48%)";
+const selectedColor = "hsl(24, 95%, 53%)";
+const basemapStroke = "hsl(215, 13%, 45%)";
+
+// Padding around the visible area so clusters at the edge do not pop in and out while panning
+const BOUNDS_PADDING = 0.25;
+
+const ViewWatcher = ({ onView }: { onView: (zoom: number, bounds: MapBounds) => void }) => {
+  const map = useMapEvents({
+    moveend: () => {
+      const bounds = map.getBounds().pad(BOUNDS_PADDING);
+      onView(map.getZoom(), { south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() });
+    }
+  });
+  return null;
+};
+
+export const ResearchMapPanel = ({ filters, refreshKey, districts, flowCounts, selectedZone, onSelectZone }: ResearchMapPanelProps) => {
+  const [zoom, setZoom] = useState(7);
+  const [bounds, setBounds] = useState<MapBounds | null>(null);
+  const [clusters, setClusters] = useState<PointCluster[]>([]);
+  const [showPoints, setShowPoints] = useState(true);
+  const [showFlows, setShowFlows] = useState(true);
+  const [useFallback, setUseFallback] = useState(!navigator.onLine);
+  const [tileErrors, setTileErrors] = useState(0);
+
+  useEffect(() => {
+    if (tileErrors >= TILE_ERROR_LIMIT) setUseFallback(true);
+  }, [tileErrors]);
+
+  const { flows, zones } = useMemo(() => buildZoneFlows(districts, flowCounts), [districts, flowCounts]);
+
+  // Clustered in the database for the visible area, so panning and zooming never download the trips themselves
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchClusters = async () => {
+      const { data, error } = await fetchResearchMapClusters(filters, clusterCellSize(zoom), bounds);
+      if (cancelled) return;
+      // Access problems are already reported by the trip query
+      if (error) {
+        if (error.code !== '42501' && error.code !== '42P01') console.error('Fetch map clusters error:', error);
+        return;
+      }
+      setClusters(data);
+    };
+
+    fetchClusters();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, zoom, bounds, refreshKey]);
+
+  const maxFlow = Math.max(1, ...flows.map(flow => flow.trips));
+  const maxZone = Math.max(1, ...zones.map(zone => zone.origins + zone.destinations));
+  const legendModes = Array.from(new Set(flows.map(flow => flow.mainMode)));
+
+  const toggleZone = (zone: string) => onSelectZone(zone === selectedZone ? "all" : zone);
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <MapIcon className="w-5 h-5 text-primary" />
+          <span>Trip Map</span>
+        </CardTitle>
+        <CardDescription>
+          Trip ends in view grouped into clusters that shrink as you zoom in, and district-to-district flows sized by trips and coloured by their main mode.
+          Click a district circle to filter the dashboard to trips starting or ending there.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox id="map_points" checked={showPoints} onCheckedChange={(checked) => setShowPoints(checked === true)} />
+            <Label htmlFor="map_points">Trip ends</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox id="map_flows" checked={showFlows} onCheckedChange={(checked) => setShowFlows(checked === true)} />
+            <Label htmlFor="map_flows">Flows</Label>
+          </div>
+          {selectedZone !== "all" && (
+            <Button variant="outline" size="sm" onClick={() => onSelectZone("all")}>
+              {selectedZone}
+              <X className="w-4 h-4 ml-1" />
+            </Button>
+          )}
+          {useFallback && (
+            <Badge variant="secondary">
+              <WifiOff className="w-3 h-3 mr-1" />
+              Offline basemap
+            </Badge>
+          )}
+        </div>
+
+        <MapContainer
+          center={[STUDY_AREA_CENTER.lat, STUDY_AREA_CENTER.lon]}
+          zoom={7}
+          className="h-[28rem] w-full rounded-lg border z-0"
+          style={useFallback ? { background: "hsl(var(--muted))" } : undefined}
+        >
+          {useFallback ? (
+            <GeoJSON data={keralaOutline} style={{ color: basemapStroke, weight: 1, fillColor: "white", fillOpacity: 1 }} />
+          ) : (
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              eventHandlers={{ tileerror: () => setTileErrors(count => count + 1) }}
+            />
+          )}
+          <ViewWatcher
+            onView={(nextZoom, nextBounds) => {
+              setZoom(nextZoom);
+              setBounds(nextBounds);
+            }}
+          />
+
+          {showFlows && flows.map((flow) => (
+            <Polyline
+              key={`${flow.origin}-${flow.destination}`}
+              positions={[[flow.from.lat, flow.from.lon], [flow.to.lat, flow.to.lon]]}
+              pathOptions={{
+                color: getModeColor(flow.mainMode),
+                weight: MIN_FLOW_WEIGHT + (flow.trips / maxFlow) * (MAX_FLOW_WEIGHT - MIN_FLOW_WEIGHT),
+                opacity: 0.7
+              }}
+            >
+              <Tooltip sticky>
+                <div className="font-medium">{flow.origin} → {flow.destination}: {flow.trips} trips</div>
+                {flow.modes.map((m) => (
+                  <div key={m.mode}>{m.label}: {m.count}</div>
+                ))}
+              </Tooltip>
+            </Polyline>
+          ))}
+
+          {showPoints && clusters.map((cluster) => (
+            <CircleMarker
+              key={`${cluster.center.lat}/${cluster.center.lon}`}
+              center={[cluster.center.lat, cluster.center.lon]}
+              radius={cluster.count > 1 ? Math.min(24, 5 + Math.sqrt(cluster.count) * 2) : 4}
+              pathOptions={{ color: "white", weight: 1, fillColor: pointColor, fillOpacity: 0.6 }}
+            >
+              <Tooltip>
+                {cluster.count === 1
+                  ? cluster.origins ? "Trip origin" : "Trip destination"
+                  : `${cluster.count} trip ends (${cluster.origins} origins, ${cluster.destinations} destinations)`}
+              </Tooltip>
+            </CircleMarker>
+          ))}
+
+          {zones.map((zone) => {
+            const selected = zone.zone === selectedZone;
+            return (
+              <CircleMarker
+                key={zone.zone}
+                center={[zone.center.lat, zone.center.lon]}
+                radius={6 + ((zone.origins + zone.destinations) / maxZone) * 10}
+                pathOptions={{
+                  color: selected ? selectedColor : basemapStroke,
+                  weight: selected ? 3 : 1.5,
+                  fillColor: selected ? selectedColor : "white",
+                  fillOpacity: 0.8
+                }}
+                eventHandlers={{ click: () => toggleZone(zone.zone) }}
+              >
+                <Tooltip>
+                  <div className="font-medium">{zone.zone}</div>
+                  <div>{zone.origins} trips from, {zone.destinations} trips to</div>
+                  <div className="text-muted-foreground">{selected ? "Click to clear the filter" : "Click to filter"}</div>
+                </Tooltip>
+              </CircleMarker>
+            );
+          })}
+        </MapContainer>
+
+        {showFlows && legendModes.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-muted-foreground">Main mode:</span>
+            {legendModes.map((mode) => (
+              <span key={mode} className="flex items-center space-x-1">
+                <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: getModeColor(mode) }} />
+                <span>{formatMode(mode)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,72 @@
+import { Fragment, MouseEvent } from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface ResearchPaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  getHref?: (page: number) => string;
+}
+
+// First, last and the pages either side of the current one; gaps become ellipses
+const getVisiblePages = (page: number, pageCount: number) =>
+  Array.from({ length: pageCount }, (_, i) => i + 1).filter(
+    p => p === 1 || p === pageCount || Math.abs(p - page) <= 1
+  );
+
+export const ResearchPagination = ({ page, pageCount, onPageChange, getHref }: ResearchPaginationProps) => {
+  if (pageCount <= 1) return null;
+
+  const linkProps = (target: number) => ({
+    href: getHref?.(target) ?? "#",
+    onClick: (e: MouseEvent) => {
+      e.preventDefault();
+      if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+    }
+  });
+
+  const pages = getVisiblePages(page, pageCount);
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            {...linkProps(page - 1)}
+            aria-disabled={page === 1}
+            className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+        {pages.map((p, index) => (
+          <Fragment key={p}>
+            {index > 0 && p - pages[index - 1] > 1 && (
+              <PaginationItem>
+                <PaginationEllipsis />
+              </PaginationItem>
+            )}
+            <PaginationItem>
+              <PaginationLink {...linkProps(p)} isActive={p === page}>
+                {p}
+              </PaginationLink>
+            </PaginationItem>
+          </Fragment>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            {...linkProps(page + 1)}
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
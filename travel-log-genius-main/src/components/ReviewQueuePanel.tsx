@@ -0,0 +1,390 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Ban, CheckCircle2, ClipboardCheck, Flag, MessageSquare, RotateCcw, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ResearchTrip, fetchResearchTripCount, fetchResearchTripPage } from "@/lib/research";
+import { defaultResearchFilters } from "@/lib/research-query";
+import { ResearchPagination } from "./ResearchPagination";
+import { formatMode, toDateTimeInput } from "@/lib/trips";
+import { validationRuleLabels } from "@/lib/trip-validation";
+import {
+  ReviewStatus,
+  addReviewNote,
+  correctTripField,
+  correctableFields,
+  flagTrip,
+  formatCorrectionValue,
+  getReviewStatus,
+  requestClarification,
+  reviewStatusLabels,
+  revertCorrection,
+  setReviewStatus
+} from "@/lib/trip-review";
+
+interface ReviewQueuePanelProps {
+  // Bumped by the dashboard whenever trips or reviews change
+  refreshKey: number;
+  onChanged: () => void;
+}
+
+type ReviewAction = () => Promise<{ error: { message?: string } | null }>;
+
+const useReviewAction = (onChanged: () => void) => {
+  const { toast } = useToast();
+  return async (action: ReviewAction, success: string) => {
+    const { error } = await action();
+    if (error) {
+      console.error('Trip review error:', error);
+      toast({
+        title: "Review Not Saved",
+        description: error.message || "Could not save the review. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+    toast({ title: success });
+    onChanged();
+    return true;
+  };
+};
+
+export const ReviewStatusBadge = ({ trip }: { trip: ResearchTrip }) => {
+  const status = getReviewStatus(trip, trip.review);
+  if (!status) return null;
+  return <Badge variant={status === "excluded" ? "destructive" : "outline"}>{reviewStatusLabels[status]}</Badge>;
+};
+
+export const FlagTripButton = ({ trip, onChanged }: { trip: ResearchTrip; onChanged: () => void }) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const run = useReviewAction(onChanged);
+
+  const handleFlag = async () => {
+    if (await run(() => flagTrip(trip.id, reason.trim()), "Trip Flagged for Review")) {
+      setOpen(false);
+      setReason("");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Flag className="w-4 h-4 mr-1" />
+          Flag
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Flag trip #{trip.id} for review</DialogTitle>
+          <DialogDescription>The trip joins the review queue. Say what looks wrong so whoever reviews it knows where to look.</DialogDescription>
+        </DialogHeader>
+        <Textarea value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g., Purpose does not match destination" rows={3} />
+        <DialogFooter>
+          <Button onClick={handleFlag}>Flag Trip</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const ReviewItem = ({ trip, onChanged }: { trip: ResearchTrip; onChanged: () => void }) => {
+  const review = trip.review ?? null;
+  const status = getReviewStatus(trip, review);
+  const run = useReviewAction(onChanged);
+  const [note, setNote] = useState("");
+  const [clarification, setClarification] = useState("");
+  const [field, setField] = useState<string>(correctableFields[0].key);
+  const [value, setValue] = useState("");
+
+  const fieldConfig = correctableFields.find(f => f.key === field);
+
+  const handleCorrect = async () => {
+    if (!fieldConfig || value === "") return;
+    const corrected =
+      fieldConfig.type === "number" ? Number(value) :
+      fieldConfig.type === "datetime" ? new Date(value).toISOString() :
+      value;
+    if (await run(() => correctTripField(trip.id, field, corrected), "Correction Saved")) {
+      setValue("");
+    }
+  };
+
+  const handleNote = async () => {
+    if (!note.trim()) return;
+    if (await run(() => addReviewNote(trip.id, note.trim()), "Note Added")) setNote("");
+  };
+
+  const handleClarification = async () => {
+    if (!clarification.trim()) return;
+    if (await run(() => requestClarification(trip.id, clarification.trim()), "Clarification Requested")) {
+      setClarification("");
+    }
+  };
+
+  const changeStatus = (next: ReviewStatus, success: string) => run(() => setReviewStatus(trip.id, next), success);
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline">#{trip.id}</Badge>
+          <span className="font-medium">{trip.origin} → {trip.destination}</span>
+          <Badge variant="secondary">{formatMode(trip.mode)}</Badge>
+          <ReviewStatusBadge trip={trip} />
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {trip.start_time ? new Date(trip.start_time).toLocaleString() : "No start time"}
+        </span>
+      </div>
+
+      {(!!trip.validation_flags?.length || !!review?.manual_flag_reason) && (
+        <ul className="space-y-1 text-sm">
+          {trip.validation_flags?.map((flag) => (
+            <li key={flag.rule} className="flex items-start space-x-2">
+              <AlertTriangle className="w-4 h-4 text-warning mt-0.5" />
+              <span><span className="font-medium">{validationRuleLabels[flag.rule] ?? flag.rule}:</span> {flag.message}</span>
+            </li>
+          ))}
+          {review?.manual_flag_reason && (
+            <li className="flex items-start space-x-2">
+              <Flag className="w-4 h-4 text-primary mt-0.5" />
+              <span><span className="font-medium">Flagged by a researcher:</span> {review.manual_flag_reason}</span>
+            </li>
+          )}
+        </ul>
+      )}
+
+      {review?.clarification_request && (
+        <div className="rounded-lg bg-muted p-3 text-sm space-y-1">
+          <p><span className="font-medium">Asked participant:</span> {review.clarification_request}</p>
+          <p className="text-muted-foreground">
+            {review.clarification_response ? `Reply: ${review.clarification_response}` : "No reply yet"}
+          </p>
+        </div>
+      )}
+
+      {review && Object.keys(review.corrections ?? {}).length > 0 && (
+        <div className="space-y-1 text-sm">
+          <p className="font-medium">Corrections</p>
+          {Object.entries(review.corrections).map(([key, correction]) => (
+            <div key={key} className="flex items-center justify-between">
+              <span className="text-muted-foreground">
+                {correctableFields.find(f => f.key === key)?.label ?? key}: {formatCorrectionValue(key, correction.from)} → {formatCorrectionValue(key, correction.to)}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => run(() => revertCorrection(trip.id, key), "Correction Reverted")}>
+                <Undo2 className="w-4 h-4 mr-1" />
+                Revert
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!!review?.notes?.length && (
+        <ul className="space-y-1 text-sm border-l pl-4">
+          {review.notes.map((n, index) => (
+            <li key={index}>
+              <span className="text-muted-foreground">{new Date(n.created_at).toLocaleString()}:</span> {n.text}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-muted-foreground">Annotate, correct or ask the participant</summary>
+        <div className="mt-3 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`note_${trip.id}`}>Note</Label>
+            <div className="flex gap-2">
+              <Input id={`note_${trip.id}`} value={note} onChange={(e) => setNote(e.target.value)} placeholder="Visible to researchers only" />
+              <Button variant="outline" onClick={handleNote}>Add Note</Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Correct a field</Label>
+            <div className="grid grid-cols-1 md:grid-cols-[180px_1fr_auto] gap-2">
+              <Select value={field} onValueChange={(next) => { setField(next); setValue(""); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {correctableFields.map((f) => (
+                    <SelectItem key={f.key} value={f.key}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {fieldConfig?.type === "select" ? (
+                <Select value={value} onValueChange={setValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={`Currently ${formatCorrectionValue(field, trip[fieldConfig.key])}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fieldConfig.options?.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  type={fieldConfig?.type === "datetime" ? "datetime-local" : fieldConfig?.type === "number" ? "number" : "text"}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder={fieldConfig?.type === "datetime"
+                    ? toDateTimeInput(trip[fieldConfig.key] as string)
+                    : `Currently ${formatCorrectionValue(field, fieldConfig && trip[fieldConfig.key])}`}
+                />
+              )}
+              <Button variant="outline" onClick={handleCorrect} disabled={value === ""}>Apply</Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`clarify_${trip.id}`}>Question for the participant</Label>
+            <div className="flex gap-2">
+              <Input
+                id={`clarify_${trip.id}`}
+                value={clarification}
+                onChange={(e) => setClarification(e.target.value)}
+                placeholder="Shown on the participant's dashboard"
+              />
+              <Button variant="outline" onClick={handleClarification}>
+                <MessageSquare className="w-4 h-4 mr-1" />
+                Ask
+              </Button>
+            </div>
+          </div>
+        </div>
+      </details>
+
+      <div className="flex flex-wrap gap-2">
+        {status !== "approved" && (
+          <Button size="sm" onClick={() => changeStatus("approved", "Trip Approved")}>
+            <CheckCircle2 className="w-4 h-4 mr-1" />
+            Approve
+          </Button>
+        )}
+        {status !== "excluded" && (
+          <Button size="sm" variant="destructive" onClick={() => changeStatus("excluded", "Trip Excluded")}>
+            <Ban className="w-4 h-4 mr-1" />
+            Exclude
+          </Button>
+        )}
+        {(status === "approved" || status === "excluded") && (
+          <Button size="sm" variant="outline" onClick={() => changeStatus("flagged", "Trip Returned to Queue")}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Back to Queue
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const REVIEW_PAGE_SIZE = 10;
+
+export const ReviewQueuePanel = ({ refreshKey, onChanged }: ReviewQueuePanelProps) => {
+  const [view, setView] = useState<ReviewStatus>("flagged");
+  const [page, setPage] = useState(1);
+  const [queue, setQueue] = useState<ResearchTrip[]>([]);
+  const [queueCount, setQueueCount] = useState(0);
+  const [counts, setCounts] = useState<Partial<Record<ReviewStatus, number>>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchQueue = async () => {
+      const { data, error } = await fetchResearchTripPage(
+        { ...defaultResearchFilters, review: view },
+        { column: "created_at", ascending: true },
+        page,
+        REVIEW_PAGE_SIZE
+      );
+      if (cancelled) return;
+      // Access problems are already reported by the dashboard's own trip query
+      if (error) {
+        if (error.code !== '42501' && error.code !== '42P01') console.error('Fetch review queue error:', error);
+        return;
+      }
+      setQueue(data.trips);
+      setQueueCount(data.count);
+    };
+
+    fetchQueue();
+    return () => {
+      cancelled = true;
+    };
+  }, [view, page, refreshKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchCounts = async () => {
+      const statuses = Object.keys(reviewStatusLabels) as ReviewStatus[];
+      const results = await Promise.all(
+        statuses.map(status => fetchResearchTripCount({ ...defaultResearchFilters, review: status }))
+      );
+      if (cancelled) return;
+      setCounts(Object.fromEntries(statuses.map((status, i) => [status, results[i].data ?? 0])));
+    };
+
+    fetchCounts();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const changeView = (status: ReviewStatus) => {
+    setView(status);
+    setPage(1);
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ClipboardCheck className="w-5 h-5 text-primary" />
+          <span>Data Quality Review</span>
+        </CardTitle>
+        <CardDescription>
+          Trips flagged by automated checks or by a researcher. Corrections keep the participant's original value; excluded
+          trips drop out of counts and exports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(reviewStatusLabels) as ReviewStatus[]).map((status) => (
+            <Button key={status} size="sm" variant={view === status ? "default" : "outline"} onClick={() => changeView(status)}>
+              {reviewStatusLabels[status]}
+              <Badge variant="secondary" className="ml-2">{counts[status] ?? 0}</Badge>
+            </Button>
+          ))}
+        </div>
+
+        {queue.length === 0 ? (
+          <p className="text-muted-foreground">No trips in this list</p>
+        ) : (
+          queue.map((trip) => <ReviewItem key={trip.id} trip={trip} onChanged={onChanged} />)
+        )}
+
+        <ResearchPagination page={page} pageCount={Math.ceil(queueCount / REVIEW_PAGE_SIZE)} onPageChange={setPage} />
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,79 +1,209 @@
-import { useState, useEffect } from "react";
+import { useCallback, useMemo, useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { BarChart3, Users, MapPin, Filter, Download, LogOut } from "lucide-react";
+import { BarChart3, Users, MapPin, Filter, LogOut, Target, AlertTriangle, ArrowDown, ArrowUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/lib/supabase";
+import {
+  ResearchTrip,
+  TripSummary,
+  emptyTripSummary,
+  fetchResearchDiaryStats,
+  fetchResearchTripPage,
+  fetchResearchTripSummary
+} from "@/lib/research";
+import {
+  RESEARCH_PAGE_SIZE,
+  ResearchFilters,
+  ResearchSort,
+  ResearchSortColumn,
+  UNASSIGNED_ZONE_FILTER,
+  hasActiveFilters,
+  readResearchParams,
+  researchSortOptions,
+  writeResearchParams
+} from "@/lib/research-query";
+import { TripLegChain } from "./TripLegChain";
+import { TripEditHistory } from "./TripEditHistory";
+import { OdMatrixPanel } from "./OdMatrixPanel";
+import { ResearchMapPanel } from "./ResearchMapPanel";
+import { TripAnalyticsPanel } from "./TripAnalyticsPanel";
+import { DiaryCompletionPanel } from "./DiaryCompletionPanel";
+import { TripExportDialog } from "./TripExportDialog";
+import { FlagTripButton, ReviewQueuePanel, ReviewStatusBadge } from "./ReviewQueuePanel";
+import { ResearchPagination } from "./ResearchPagination";
+import { ZoneSystemPanel } from "./ZoneSystemPanel";
 import { useToast } from "@/hooks/use-toast";
+import { formatPurpose, transportModes, tripPurposes } from "@/lib/trips";
+import { ageBands, incomeBands, keralaDistricts, vehicleOwnershipOptions } from "@/lib/household";
+import { formatParty, getTravelParty } from "@/lib/companions";
+import { validationRuleLabels } from "@/lib/trip-validation";
+import { reviewStatusLabels } from "@/lib/trip-review";
+import { DiaryStats } from "@/lib/diary-days";
+import { TrafficZone, fetchZones, formatZone } from "@/lib/zone-system";
+import { UserRole, canManageZones } from "@/lib/roles";
 
-interface Trip {
-  id: number;
-  user_id: string;
-  trip_number?: string;
-  origin: string;
-  destination: string;
-  mode: string;
-  start_time?: string;
-  end_time?: string;
-  companions?: string;
-  created_at?: string;
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface ScientistDashboardProps {
+  role: UserRole | null;
 }
 
-export const ScientistDashboard = () => {
+export const ScientistDashboard = ({ role }: ScientistDashboardProps) => {
   const { toast } = useToast();
-  const [trips, setTrips] = useState<Trip[]>([]);
-  const [filteredTrips, setFilteredTrips] = useState<Trip[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [modeFilter, setModeFilter] = useState("all");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const params = readResearchParams(searchParams);
+  const page = params.page;
+  // Keyed on values so moving between pages does not refetch the aggregates
+  const filterKey = JSON.stringify(params.filters);
+  const filters = useMemo(() => JSON.parse(filterKey) as ResearchFilters, [filterKey]);
+  const { column: sortColumn, ascending } = params.sort;
+  const sort = useMemo<ResearchSort>(() => ({ column: sortColumn, ascending }), [sortColumn, ascending]);
+
+  const [searchInput, setSearchInput] = useState(filters.search);
+  const [pageTrips, setPageTrips] = useState<ResearchTrip[]>([]);
+  const [matchCount, setMatchCount] = useState(0);
+  const [summary, setSummary] = useState<TripSummary>(emptyTripSummary);
+  const [diaryStats, setDiaryStats] = useState<DiaryStats | null>(null);
+  const [zones, setZones] = useState<TrafficZone[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Any filter or sort change starts again from the first page
+  const updateQuery = useCallback(
+    (changes: Partial<ResearchFilters>, nextSort: ResearchSort = sort, nextPage = 1) => {
+      setSearchParams(writeResearchParams({ ...filters, ...changes }, nextSort, nextPage), { replace: true });
+    },
+    [filters, sort, setSearchParams]
+  );
 
   useEffect(() => {
-    fetchAllTrips();
-  }, []);
+    setSearchInput(filters.search);
+  }, [filters.search]);
 
   useEffect(() => {
-    let filtered = trips;
-    
-    if (searchTerm) {
-      filtered = filtered.filter(trip =>
-        trip.origin.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        trip.destination.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-    
-    if (modeFilter !== "all") {
-      filtered = filtered.filter(trip => trip.mode === modeFilter);
-    }
-    
-    setFilteredTrips(filtered);
-  }, [searchTerm, modeFilter, trips]);
-
-  const fetchAllTrips = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('trips')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error && error.code !== '42P01') { // Ignore table doesn't exist error
-        console.error('Fetch all trips error:', error);
+    if (searchInput === filters.search) return;
+    const timer = setTimeout(() => updateQuery({ search: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, filters.search, updateQuery]);
+
+  const reportLoadError = useCallback(
+    (error: { code?: string; message: string }) => {
+      if (error.code === '42501') {
+        toast({
+          title: "Access Denied",
+          description: error.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      if (error.code !== '42P01') { // Ignore table doesn't exist error
+        console.error('Fetch trips error:', error);
         toast({
           title: "Data Load Error",
           description: "Could not load trip data. Please ensure database is set up.",
           variant: "destructive"
         });
+      }
+    },
+    [toast]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPage = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await fetchResearchTripPage(filters, sort, page);
+        if (cancelled) return;
+        if (error) {
+          reportLoadError(error);
+          return;
+        }
+        setPageTrips(data.trips);
+        setMatchCount(data.count);
+      } catch (error) {
+        console.error('Unexpected error fetching trips:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, sort, page, refreshKey, reportLoadError]);
+
+  // Aggregates cover every matching trip, not just the page on screen, and are worked out in the database
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchSummary = async () => {
+      const { data, error } = await fetchResearchTripSummary(filters);
+      if (cancelled) return;
+      // Access problems are already reported by the page query
+      if (error) {
+        if (error.code !== '42501' && error.code !== '42P01') console.error('Fetch trip summary error:', error);
         return;
       }
+      setSummary(data);
+    };
 
-      setTrips(data || []);
-    } catch (error) {
-      console.error('Unexpected error fetching trips:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    fetchSummary();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, refreshKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDiaryStats = async () => {
+      const { data, error } = await fetchResearchDiaryStats(filters);
+      if (cancelled) return;
+      // Access problems are already reported by the trip query
+      if (error) {
+        if (error.code !== '42501' && error.code !== '42P01') console.error('Fetch diary days error:', error);
+        return;
+      }
+      setDiaryStats(data);
+    };
+
+    fetchDiaryStats();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, refreshKey]);
+
+  useEffect(() => {
+    const loadZones = async () => {
+      const { data, error } = await fetchZones();
+      // No zones table just means no zone system has been uploaded yet
+      if (error) {
+        if (error.code !== '42P01') console.error('Fetch zones error:', error);
+        return;
+      }
+      setZones(data);
+    };
+
+    loadZones();
+  }, [refreshKey]);
+
+  const zoneNames = useMemo(() => new Map(zones.map(zone => [zone.zone_id, zone.name])), [zones]);
+
+  const handleChanged = useCallback(() => {
+    setRefreshKey(key => key + 1);
+  }, []);
+
+  const pageCount = Math.ceil(matchCount / RESEARCH_PAGE_SIZE);
+  const pageStart = matchCount ? (page - 1) * RESEARCH_PAGE_SIZE + 1 : 0;
+  const pageEnd = Math.min(page * RESEARCH_PAGE_SIZE, matchCount);
 
   const handleLogout = async () => {
     const { error } = await supabase.auth.signOut();
@@ -99,48 +229,36 @@ export const ScientistDashboard = () => {
   };
 
   const getStats = () => {
-    const totalTrips = filteredTrips.length;
-    const uniqueUsers = new Set(filteredTrips.map(t => t.user_id)).size;
-    const modeCounts = filteredTrips.reduce((acc, trip) => {
-      acc[trip.mode] = (acc[trip.mode] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    const topMode = Object.entries(modeCounts).sort(([,a], [,b]) => b - a)[0];
+    const topMode = [...summary.modes].sort((a, b) => b.count - a.count)[0];
 
     return {
-      totalTrips,
-      uniqueUsers,
-      topMode: topMode ? `${topMode[0]} (${topMode[1]} trips)` : "N/A"
+      totalTrips: summary.total,
+      uniqueUsers: summary.participants,
+      topMode: topMode ? `${topMode.mode} (${topMode.count} trips)` : "N/A"
     };
   };
 
   const stats = getStats();
 
-  const exportData = () => {
-    const csvContent = [
-      ["Trip ID", "User ID", "Trip Number", "Origin", "Destination", "Mode", "Start Time", "End Time", "Companions"],
-      ...filteredTrips.map(trip => [
-        trip.id,
-        trip.user_id,
-        trip.trip_number || "",
-        trip.origin,
-        trip.destination,
-        trip.mode,
-        trip.start_time || "",
-        trip.end_time || "",
-        trip.companions || ""
-      ])
-    ].map(row => row.join(",")).join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "natpac_trip_data.csv";
-    a.click();
-    URL.revokeObjectURL(url);
+  const getPurposeBreakdown = () => {
+    return tripPurposes
+      .map(({ value, label }) => {
+        const matching = summary.purposes.find(row => row.purpose === value);
+        const count = matching?.count ?? 0;
+        return {
+          value,
+          label,
+          count,
+          share: summary.total ? (count / summary.total) * 100 : 0,
+          avgDuration: matching?.avg_activity_minutes ?? null
+        };
+      })
+      .filter(row => row.count > 0)
+      .sort((a, b) => b.count - a.count);
   };
 
+  const purposeBreakdown = getPurposeBreakdown();
+
   return (
     <div className="min-h-screen bg-gradient-subtle">
       <div className="container mx-auto p-4 space-y-6">
@@ -199,6 +317,38 @@ export const ScientistDashboard = () => {
           </Card>
         </div>
 
+        {/* Purpose Breakdown */}
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Target className="w-5 h-5 text-primary" />
+              <span>Trips by Purpose</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {purposeBreakdown.length === 0 ? (
+              <p className="text-muted-foreground">No purpose data for the current filters</p>
+            ) : (
+              <div className="space-y-3">
+                {purposeBreakdown.map((row) => (
+                  <div key={row.value} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium">{row.label}</span>
+                      <span className="text-muted-foreground">
+                        {row.count} trips ({row.share.toFixed(1)}%)
+                        {row.avgDuration != null && ` · avg ${row.avgDuration} min at destination`}
+                      </span>
+                    </div>
+                    <div className="h-2 rounded-full bg-muted">
+                      <div className="h-2 rounded-full bg-primary" style={{ width: `${row.share}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Filters and Export */}
         <Card className="shadow-card">
           <CardHeader>
@@ -207,68 +357,284 @@ export const ScientistDashboard = () => {
                 <Filter className="w-5 h-5 text-primary" />
                 <span>Data Filters & Export</span>
               </span>
-              <Button 
-                onClick={exportData}
-                className="bg-gradient-accent hover:bg-accent-hover transition-smooth"
-              >
-                <Download className="w-4 h-4 mr-2" />
-                Export CSV
-              </Button>
+              <TripExportDialog filters={filters} sort={sort} count={matchCount} excludedCount={summary.excluded} />
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
               <div className="space-y-2">
                 <label className="text-sm font-medium">Search Locations</label>
                 <Input
                   placeholder="Search by origin or destination..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                 />
               </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Trip District</label>
+                <Select value={filters.zone} onValueChange={(zone) => updateQuery({ zone })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All districts" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Districts</SelectItem>
+                    {keralaDistricts.map((district) => (
+                      <SelectItem key={district} value={district}>
+                        {district}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="space-y-2">
                 <label className="text-sm font-medium">Filter by Mode</label>
-                <Select value={modeFilter} onValueChange={setModeFilter}>
+                <Select value={filters.mode} onValueChange={(mode) => updateQuery({ mode })}>
                   <SelectTrigger>
                     <SelectValue placeholder="All modes" />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Modes</SelectItem>
-                    <SelectItem value="car">Car</SelectItem>
-                    <SelectItem value="bus">Bus</SelectItem>
-                    <SelectItem value="train">Train</SelectItem>
-                    <SelectItem value="walking">Walking</SelectItem>
+                    {transportModes.map((mode) => (
+                      <SelectItem key={mode} value={mode.toLowerCase()}>
+                        {mode}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Filter by Purpose</label>
+                <Select value={filters.purpose} onValueChange={(purpose) => updateQuery({ purpose })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All purposes" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Purposes</SelectItem>
+                    {tripPurposes.map((purpose) => (
+                      <SelectItem key={purpose.value} value={purpose.value}>
+                        {purpose.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Validation Flags</label>
+                <Select value={filters.flag} onValueChange={(flag) => updateQuery({ flag })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All trips" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Trips</SelectItem>
+                    <SelectItem value="flagged">Any Flag</SelectItem>
+                    <SelectItem value="unflagged">No Flags</SelectItem>
+                    {Object.entries(validationRuleLabels).map(([rule, label]) => (
+                      <SelectItem key={rule} value={rule}>
+                        {label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mt-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Household Income</label>
+                <Select value={filters.income} onValueChange={(income) => updateQuery({ income })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All incomes" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Incomes</SelectItem>
+                    {incomeBands.map((band) => (
+                      <SelectItem key={band.value} value={band.value}>
+                        {band.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Vehicle Ownership</label>
+                <Select value={filters.vehicle} onValueChange={(vehicle) => updateQuery({ vehicle })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All households" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Households</SelectItem>
+                    {vehicleOwnershipOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Home District</label>
+                <Select value={filters.homeZone} onValueChange={(homeZone) => updateQuery({ homeZone })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All districts" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Districts</SelectItem>
+                    {keralaDistricts.map((district) => (
+                      <SelectItem key={district} value={district}>
+                        {district}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Participant Age</label>
+                <Select value={filters.age} onValueChange={(age) => updateQuery({ age })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All ages" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Ages</SelectItem>
+                    {ageBands.map((band) => (
+                      <SelectItem key={band.value} value={band.value}>
+                        {band.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Review Status</label>
+                <Select value={filters.review} onValueChange={(review) => updateQuery({ review })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Not excluded" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="included">Not Excluded</SelectItem>
+                    <SelectItem value="all">All Trips</SelectItem>
+                    {Object.entries(reviewStatusLabels).map(([status, label]) => (
+                      <SelectItem key={status} value={status}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {zones.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mt-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Origin Zone</label>
+                  <Select value={filters.originZone} onValueChange={(originZone) => updateQuery({ originZone })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="All zones" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Zones</SelectItem>
+                      <SelectItem value={UNASSIGNED_ZONE_FILTER}>Unassigned</SelectItem>
+                      {zones.map((zone) => (
+                        <SelectItem key={zone.zone_id} value={zone.zone_id}>
+                          {formatZone(zone.zone_id, zoneNames)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Destination Zone</label>
+                  <Select value={filters.destinationZone} onValueChange={(destinationZone) => updateQuery({ destinationZone })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="All zones" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Zones</SelectItem>
+                      <SelectItem value={UNASSIGNED_ZONE_FILTER}>Unassigned</SelectItem>
+                      {zones.map((zone) => (
+                        <SelectItem key={zone.zone_id} value={zone.zone_id}>
+                          {formatZone(zone.zone_id, zoneNames)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {/* Traffic Analysis Zones */}
+        <ZoneSystemPanel zones={zones} counts={summary.zones} tripCount={summary.total} canManage={canManageZones(role)} onChanged={handleChanged} />
+
+        {/* Data Quality Review */}
+        <ReviewQueuePanel refreshKey={refreshKey} onChanged={handleChanged} />
+
+        {/* Person-day Completion & Trip Rates */}
+        {diaryStats && <DiaryCompletionPanel stats={diaryStats} />}
+
+        {/* Mode Share & Temporal Distribution */}
+        <TripAnalyticsPanel summary={summary} />
+
+        {/* Trip Map */}
+        <ResearchMapPanel
+          filters={filters}
+          refreshKey={refreshKey}
+          districts={summary.districts}
+          flowCounts={summary.flows}
+          selectedZone={filters.zone}
+          onSelectZone={(zone) => updateQuery({ zone })}
+        />
+
+        {/* Origin-Destination Matrix */}
+        <OdMatrixPanel filters={filters} refreshKey={refreshKey} />
+
         {/* Trip Data Table */}
         <Card className="shadow-card">
-          <CardHeader>
-            <CardTitle>Collected Trip Data</CardTitle>
-            <CardDescription>
-              Showing {filteredTrips.length} of {trips.length} total trips
-            </CardDescription>
+          <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Collected Trip Data</CardTitle>
+              <CardDescription>
+                Showing {pageStart}–{pageEnd} of {matchCount} matching trips
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select
+                value={sort.column}
+                onValueChange={(column) => updateQuery({}, { ...sort, column: column as ResearchSortColumn })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {researchSortOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => updateQuery({}, { ...sort, ascending: !sort.ascending })}>
+                {sort.ascending ? <ArrowUp className="w-4 h-4 mr-1" /> : <ArrowDown className="w-4 h-4 mr-1" />}
+                {sort.ascending ? "Ascending" : "Descending"}
+              </Button>
+            </div>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <div className="space-y-4">
               {isLoading ? (
                 <div className="text-center py-8">
                   <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
                   <p className="text-muted-foreground">Loading trip data...</p>
                 </div>
-              ) : filteredTrips.length === 0 ? (
+              ) : pageTrips.length === 0 ? (
                 <div className="text-center py-8">
                   <MapPin className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                   <p className="text-muted-foreground">
-                    {trips.length === 0 ? "No trip data available yet" : "No trips match your filters"}
+                    {hasActiveFilters(filters) ? "No trips match your filters" : "No trip data available yet"}
                   </p>
                 </div>
               ) : (
-                filteredTrips.map((trip) => (
+                pageTrips.map((trip) => (
                   <div key={trip.id} className="border rounded-lg p-4 space-y-3">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-3">
@@ -280,19 +646,35 @@ export const ScientistDashboard = () => {
                           <Badge variant="outline">{trip.trip_number}</Badge>
                         )}
                         <Badge variant="outline">User: {trip.user_id.slice(0, 8)}...</Badge>
+                        <ReviewStatusBadge trip={trip} />
+                        {trip.validation_flags?.map((flag) => (
+                          <Badge key={flag.rule} variant="secondary" title={flag.message}>
+                            <AlertTriangle className="w-3 h-3 mr-1 text-warning" />
+                            {validationRuleLabels[flag.rule] ?? flag.rule}
+                          </Badge>
+                        ))}
                       </div>
+                      <FlagTripButton trip={trip} onChanged={handleChanged} />
                     </div>
+
+                    <TripLegChain legs={trip.trip_legs} />
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
                       <div className="flex items-center space-x-2">
                         <MapPin className="w-4 h-4 text-primary" />
                         <span className="font-medium">From:</span>
                         <span>{trip.origin}</span>
+                        {zones.length > 0 && (
+                          <span className="text-muted-foreground">({formatZone(trip.origin_zone_id, zoneNames)})</span>
+                        )}
                       </div>
                       <div className="flex items-center space-x-2">
                         <MapPin className="w-4 h-4 text-accent" />
                         <span className="font-medium">To:</span>
                         <span>{trip.destination}</span>
+                        {zones.length > 0 && (
+                          <span className="text-muted-foreground">({formatZone(trip.destination_zone_id, zoneNames)})</span>
+                        )}
                       </div>
                     </div>
                     
@@ -313,17 +695,37 @@ export const ScientistDashboard = () => {
                       </div>
                     )}
                     
-                    {trip.companions && (
+                    {trip.purpose && (
+                      <div className="flex items-center space-x-2 text-sm">
+                        <Target className="w-4 h-4 text-primary" />
+                        <span className="font-medium">Purpose:</span>
+                        <span>{formatPurpose(trip.purpose, trip.purpose_other)}</span>
+                        {trip.activity_duration_minutes != null && (
+                          <span className="text-muted-foreground">({trip.activity_duration_minutes} min)</span>
+                        )}
+                      </div>
+                    )}
+
+                    {getTravelParty(trip) && (
                       <div className="flex items-start space-x-2 text-sm">
                         <Users className="w-4 h-4 text-accent mt-0.5" />
                         <span className="font-medium">Companions:</span>
-                        <span>{trip.companions}</span>
+                        <span>{formatParty(getTravelParty(trip))}</span>
                       </div>
                     )}
+
+                    <TripEditHistory edits={trip.trip_edits} />
                   </div>
                 ))
               )}
             </div>
+
+            <ResearchPagination
+              page={page}
+              pageCount={pageCount}
+              onPageChange={(next) => updateQuery({}, sort, next)}
+              getHref={(target) => `?${writeResearchParams(filters, sort, target)}`}
+            />
           </CardContent>
         </Card>
       </div>
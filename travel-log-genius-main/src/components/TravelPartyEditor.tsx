@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/lib/supabase";
+import { HouseholdMember, fetchHouseholdProfile } from "@/lib/household";
+import { TravelParty, describeMember, normalizeParty } from "@/lib/companions";
+
+interface TravelPartyEditorProps {
+  party: TravelParty;
+  onChange: (party: TravelParty) => void;
+}
+
+export const TravelPartyEditor = ({ party, onChange }: TravelPartyEditorProps) => {
+  const [roster, setRoster] = useState<HouseholdMember[]>([]);
+
+  useEffect(() => {
+    // Read the cached session so the form still works offline; the roster is simply left empty then
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
+      if (!session?.user) return;
+      const { data, error } = await fetchHouseholdProfile(session.user.id);
+      if (error) {
+        console.error('Household roster load error:', error);
+        return;
+      }
+      setRoster(data?.household_members ?? []);
+    });
+  }, []);
+
+  const update = (changes: Partial<TravelParty>) => {
+    // Any edit makes this an answer given by the participant rather than one parsed from old text
+    onChange(normalizeParty({ ...party, ...changes, parsed: undefined }, roster));
+  };
+
+  const toggleMember = (index: number, checked: boolean) => {
+    update({
+      household_members: checked
+        ? [...party.household_members, index].sort((a, b) => a - b)
+        : party.household_members.filter(i => i !== index)
+    });
+  };
+
+  const count = (value: string) => Math.max(0, Number(value) || 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="party_adults">Adults with you</Label>
+          <Input
+            id="party_adults"
+            type="number"
+            min={0}
+            value={party.adults}
+            onChange={(e) => update({ adults: count(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="party_children">Children with you</Label>
+          <Input
+            id="party_children"
+            type="number"
+            min={0}
+            value={party.children}
+            onChange={(e) => update({ children: count(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="party_non_household">Of these, not from your household</Label>
+          <Input
+            id="party_non_household"
+            type="number"
+            min={0}
+            value={party.non_household}
+            onChange={(e) => update({ non_household: count(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {roster.length > 1 && (
+        <div className="space-y-2">
+          <Label>Household members on this trip</Label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {roster.slice(1).map((member, offset) => {
+              const index = offset + 1;
+              return (
+                <div key={index} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`party_member_${index}`}
+                    checked={party.household_members.includes(index)}
+                    onCheckedChange={(checked) => toggleMember(index, checked === true)}
+                  />
+                  <Label htmlFor={`party_member_${index}`} className="font-normal">
+                    {describeMember(member, index)}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
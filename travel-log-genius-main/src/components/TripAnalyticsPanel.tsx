@@ -0,0 +1,234 @@
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Clock, PieChart as PieChartIcon, TrendingUp } from "lucide-react";
+import {
+  getCompanionSummary,
+  getOccupancyByMode,
+  getPeakHours,
+  toDurationHistogram,
+  toHourlyDistribution,
+  toModeShare,
+  toWeekdayDistribution,
+} from "@/lib/analytics";
+import { TripSummary } from "@/lib/research";
+
+interface TripAnalyticsPanelProps {
+  summary: TripSummary;
+}
+
+const palette = [
+  "hsl(var(--primary))",
+  "hsl(var(--accent))",
+  "hsl(var(--success))",
+  "hsl(var(--warning))",
+  "hsl(var(--destructive))",
+  "hsl(262 83% 58%)",
+  "hsl(199 89% 48%)",
+  "hsl(24 95% 53%)",
+  "hsl(330 81% 60%)",
+  "hsl(var(--muted-foreground))",
+];
+
+const countConfig = {
+  count: { label: "Trips", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const occupancyConfig = {
+  occupancy: { label: "People per vehicle", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+export const TripAnalyticsPanel = ({ summary }: TripAnalyticsPanelProps) => {
+  // Chart config keys end up in CSS variable names, so modes like "auto rickshaw" need a safe key
+  const modeShare = useMemo(
+    () => toModeShare(summary.modes).map(row => ({ ...row, key: row.mode.replace(/\s+/g, "-") })),
+    [summary.modes]
+  );
+  const hourly = useMemo(() => toHourlyDistribution(summary.hours), [summary.hours]);
+  const weekdays = useMemo(() => toWeekdayDistribution(summary.weekdays), [summary.weekdays]);
+  const durations = useMemo(() => toDurationHistogram(summary.durations), [summary.durations]);
+  const peaks = useMemo(() => getPeakHours(hourly), [hourly]);
+  const occupancy = useMemo(() => getOccupancyByMode(summary.parties), [summary.parties]);
+  const companions = useMemo(() => getCompanionSummary(summary.parties), [summary.parties]);
+
+  const modeConfig = useMemo(
+    () =>
+      modeShare.reduce((acc, row, index) => {
+        acc[row.key] = { label: row.label, color: palette[index % palette.length] };
+        return acc;
+      }, {} as ChartConfig),
+    [modeShare]
+  );
+
+  if (summary.total === 0) {
+    return (
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <TrendingUp className="w-5 h-5 text-primary" />
+            <span>Travel Analytics</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">No trips match the current filters</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {[
+          { label: "Peak Hour", peak: peaks.overall },
+          { label: "Morning Peak", peak: peaks.am },
+          { label: "Evening Peak", peak: peaks.pm },
+        ].map(({ label, peak }) => (
+          <Card key={label} className="shadow-card">
+            <CardContent className="flex items-center space-x-4 p-6">
+              <div className="p-3 bg-gradient-primary rounded-lg">
+                <Clock className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <div>
+                <p className="text-lg font-bold">{peak ? peak.range : "N/A"}</p>
+                <p className="text-muted-foreground">
+                  {label}{peak && ` · ${peak.count} trips`}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <PieChartIcon className="w-5 h-5 text-primary" />
+              <span>Mode Share</span>
+            </CardTitle>
+            <CardDescription>Share of trips by main mode</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={modeConfig} className="h-[280px] w-full">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="key" />} />
+                <Pie data={modeShare} dataKey="count" nameKey="key" innerRadius={50}>
+                  {modeShare.map((row) => (
+                    <Cell key={row.key} fill={`var(--color-${row.key})`} />
+                  ))}
+                </Pie>
+                <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+              </PieChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Mode Share (%)</CardTitle>
+            <CardDescription>Percentage of filtered trips</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={modeConfig} className="h-[280px] w-full">
+              <BarChart data={modeShare} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" unit="%" />
+                <YAxis type="category" dataKey="label" width={100} />
+                <ChartTooltip content={<ChartTooltipContent nameKey="key" />} />
+                <Bar dataKey="share" radius={4}>
+                  {modeShare.map((row) => (
+                    <Cell key={row.key} fill={`var(--color-${row.key})`} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Trips by Hour of Day</CardTitle>
+            <CardDescription>Based on trip start time</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={countConfig} className="h-[240px] w-full">
+              <BarChart data={hourly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" interval={2} />
+                <YAxis allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Trips by Day of Week</CardTitle>
+            <CardDescription>Based on trip start time</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={countConfig} className="h-[240px] w-full">
+              <BarChart data={weekdays}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" />
+                <YAxis allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Trip Duration</CardTitle>
+            <CardDescription>Minutes between start and end time, for trips with both recorded</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={countConfig} className="h-[240px] w-full">
+              <BarChart data={durations}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" unit=" min" />
+                <YAxis allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Average Occupancy by Mode</CardTitle>
+            <CardDescription>
+              People per private vehicle, including the participant. {companions.groupShare.toFixed(1)}% of trips were made
+              with company and {companions.jointShare.toFixed(1)}% with another household member.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={occupancyConfig} className="h-[240px] w-full">
+              <BarChart data={occupancy}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" />
+                <YAxis />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="occupancy" fill="var(--color-occupancy)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import { useMemo, useState } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+import { TripRecord } from "@/lib/trips";
+import { getCalendarDayKey, getTripsForDay } from "@/lib/diary-days";
+import { countTripsByDay } from "@/lib/trip-timeline";
+import { TripTimeline } from "./TripTimeline";
+
+interface TripCalendarPanelProps {
+  trips: TripRecord[];
+}
+
+export const TripCalendarPanel = ({ trips }: TripCalendarPanelProps) => {
+  const [selectedDay, setSelectedDay] = useState(() => new Date());
+  const [month, setMonth] = useState(() => new Date());
+
+  const counts = useMemo(() => countTripsByDay(trips), [trips]);
+  const tripDays = useMemo(() => Object.keys(counts).map(day => parseISO(day)), [counts]);
+  const dayTrips = getTripsForDay(trips, getCalendarDayKey(selectedDay));
+
+  const goToDay = (day: Date) => {
+    setSelectedDay(day);
+    setMonth(day);
+  };
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarDays className="w-5 h-5 text-blue-500" />
+          <span>Trip Calendar</span>
+        </CardTitle>
+        <CardDescription>Pick a day to see its trips in the order you made them</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col md:flex-row gap-6">
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={(day) => day && setSelectedDay(day)}
+          month={month}
+          onMonthChange={setMonth}
+          modifiers={{ hasTrips: tripDays }}
+          modifiersClassNames={{ hasTrips: "font-semibold" }}
+          formatters={{
+            formatDay: (day) => {
+              const count = counts[getCalendarDayKey(day)];
+              return (
+                <span className="flex flex-col items-center leading-none">
+                  {format(day, "d")}
+                  {count && <span className="text-[0.6rem] text-primary">{count}</span>}
+                </span>
+              );
+            }
+          }}
+          className="rounded-md border self-start"
+        />
+
+        <div className="flex-1 space-y-4">
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" size="icon" title="Previous day" onClick={() => goToDay(addDays(selectedDay, -1))}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="font-medium">{format(selectedDay, "EEEE d MMMM yyyy")}</span>
+            <Button variant="ghost" size="icon" title="Next day" onClick={() => goToDay(addDays(selectedDay, 1))}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {dayTrips.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No trips recorded on this day</p>
+          ) : (
+            <TripTimeline trips={dayTrips} />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,46 @@
+import { History } from "lucide-react";
+import { TripEdit, TripLeg, sortLegs } from "@/lib/trips";
+
+interface TripEditHistoryProps {
+  edits?: TripEdit[];
+}
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "legs" && Array.isArray(value)) {
+    return sortLegs(value as TripLeg[]).map(leg => leg.mode).join(" > ");
+  }
+  if (field.endsWith("_time") || field.endsWith("_at")) {
+    return new Date(String(value)).toLocaleString();
+  }
+  return String(value);
+};
+
+export const TripEditHistory = ({ edits }: TripEditHistoryProps) => {
+  if (!edits?.length) return null;
+
+  const sorted = [...edits].sort((a, b) => a.edited_at.localeCompare(b.edited_at));
+
+  return (
+    <details className="text-sm">
+      <summary className="flex items-center space-x-2 cursor-pointer text-muted-foreground">
+        <History className="w-4 h-4" />
+        <span>Edited {sorted.length} {sorted.length === 1 ? "time" : "times"} after submission</span>
+      </summary>
+      <ul className="mt-2 space-y-2 border-l pl-4">
+        {sorted.map((edit, index) => (
+          <li key={edit.id ?? index}>
+            <p className="font-medium">
+              {edit.action === "delete" ? "Deleted" : "Updated"} on {new Date(edit.edited_at).toLocaleString()}
+            </p>
+            {edit.action === "update" && Object.entries(edit.changes).map(([field, change]) => (
+              <p key={field} className="text-muted-foreground">
+                {field}: {formatValue(field, change.from)} → {formatValue(field, change.to)}
+              </p>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
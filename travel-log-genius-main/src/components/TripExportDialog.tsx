@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { BookOpen, Download, ShieldCheck } from "lucide-react";
+import { fetchResearchTripsForExport } from "@/lib/research";
+import { ResearchFilters, ResearchSort, writeResearchParams } from "@/lib/research-query";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/csv";
+import { applyPrivacyProfile, defaultPrivacyProfile, getPrivacyNotes, getPrivacyProfile, privacyProfiles } from "@/lib/export-privacy";
+import {
+  DateFormat,
+  ExportFormat,
+  buildDataDictionary,
+  buildExportMetadata,
+  buildTripCsv,
+  dateFormats,
+  exportFormats,
+  tripExportColumns
+} from "@/lib/trip-export";
+import { buildDesireLines, buildTripFeatures, toGeoJson, toKml } from "@/lib/geo-export";
+import { buildTripWorkbook } from "@/lib/trip-workbook";
+import { XLSX_TYPE } from "@/lib/xlsx";
+
+interface TripExportDialogProps {
+  filters: ResearchFilters;
+  sort: ResearchSort;
+  count: number;
+  excludedCount: number;
+}
+
+const CSV_TYPE = "text/csv;charset=utf-8";
+const GEOJSON_TYPE = "application/geo+json";
+const KML_TYPE = "application/vnd.google-earth.kml+xml";
+
+export const TripExportDialog = ({ filters, sort, count, excludedCount }: TripExportDialogProps) => {
+  const { toast } = useToast();
+  const [columns, setColumns] = useState<string[]>(tripExportColumns.map(column => column.key));
+  const [dateFormat, setDateFormat] = useState<DateFormat>("iso");
+  const [fileFormat, setFileFormat] = useState<ExportFormat>("csv");
+  const [profileValue, setProfileValue] = useState(defaultPrivacyProfile.value);
+  const [minOdParticipants, setMinOdParticipants] = useState(defaultPrivacyProfile.minOdParticipants);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const profile = { ...getPrivacyProfile(profileValue), minOdParticipants };
+
+  const changeProfile = (value: string) => {
+    setProfileValue(value);
+    setMinOdParticipants(getPrivacyProfile(value).minOdParticipants);
+  };
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setColumns(prev => (checked ? [...prev, key] : prev.filter(k => k !== key)));
+  };
+
+  // The dashboard only holds one page of full rows, so the export fetches every matching trip itself
+  const exportTrips = async () => {
+    setIsExporting(true);
+    const { data, error } = await fetchResearchTripsForExport(filters, sort);
+    setIsExporting(false);
+
+    if (error) {
+      console.error('Trip export error:', error);
+      toast({
+        title: "Export Failed",
+        description: error.message || "Could not load the trips to export. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const { trips, ...privacy } = applyPrivacyProfile(data, profile);
+    const metadata = {
+      profile,
+      dateFormat,
+      filters: writeResearchParams(filters, sort, 1).toString(),
+      matchedTrips: data.length,
+      privacy,
+      exportedTrips: trips.length
+    };
+
+    if (fileFormat === "xlsx") {
+      // The workbook carries its own metadata sheet
+      downloadFile(buildTripWorkbook(trips, columns, dateFormat, metadata), "natpac_trip_data.xlsx", XLSX_TYPE);
+    } else if (fileFormat === "csv") {
+      downloadFile(buildTripCsv(trips, columns, dateFormat), "natpac_trip_data.csv", CSV_TYPE);
+    } else {
+      const { collection, unmapped } = buildTripFeatures(trips, columns, dateFormat);
+      const desireLines = buildDesireLines(trips);
+      if (fileFormat === "geojson") {
+        downloadFile(toGeoJson(collection), "natpac_trips.geojson", GEOJSON_TYPE);
+        downloadFile(toGeoJson(desireLines), "natpac_desire_lines.geojson", GEOJSON_TYPE);
+      } else {
+        downloadFile(toKml(collection, desireLines), "natpac_trip_data.kml", KML_TYPE);
+      }
+      if (unmapped > 0) {
+        toast({
+          title: "Some Trips Not Mapped",
+          description: `${unmapped} trips have no coordinates or known place for their ends and were left out of the map layers.`
+        });
+      }
+    }
+    if (fileFormat !== "xlsx") {
+      downloadFile(buildExportMetadata(metadata), "natpac_trip_data_metadata.csv", CSV_TYPE);
+    }
+
+    if (privacy.suppressedTrips > 0) {
+      toast({
+        title: "Rare Trips Suppressed",
+        description: `${privacy.suppressedTrips} trips on ${privacy.suppressedPairs} origin-destination pairs with fewer than ${profile.minOdParticipants} participants were left out.`
+      });
+    }
+  };
+
+  const exportDictionary = () => {
+    downloadFile(buildDataDictionary(columns, dateFormat, getPrivacyNotes(profile)), "natpac_trip_data_dictionary.csv", CSV_TYPE);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button className="bg-gradient-accent hover:bg-accent-hover transition-smooth">
+          <Download className="w-4 h-4 mr-2" />
+          Export Data
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export Trip Data</DialogTitle>
+          <DialogDescription>
+            {count} trips match the current filters
+            {excludedCount > 0 && `, including ${excludedCount} excluded in review`}. Choose the format, columns and date format to export.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label className="flex items-center space-x-2">
+              <ShieldCheck className="w-4 h-4 text-primary" />
+              <span>Privacy</span>
+            </Label>
+            <Select value={profileValue} onValueChange={changeProfile}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {privacyProfiles.map((p) => (
+                  <SelectItem key={p.value} value={p.value}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{profile.description}</p>
+            {profile.location !== "exact" && (
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="export_min_od" className="text-sm font-normal">
+                  Leave out OD pairs travelled by fewer than
+                </Label>
+                <Input
+                  id="export_min_od"
+                  type="number"
+                  min={1}
+                  className="w-20"
+                  value={minOdParticipants}
+                  onChange={(e) => setMinOdParticipants(Math.max(1, Number(e.target.value) || 1))}
+                />
+                <span className="text-sm">participants</span>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <div className="space-x-2">
+                <Button variant="link" size="sm" onClick={() => setColumns(tripExportColumns.map(column => column.key))}>
+                  Select all
+                </Button>
+                <Button variant="link" size="sm" onClick={() => setColumns([])}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-64 overflow-y-auto">
+              {tripExportColumns.map((column) => (
+                <div key={column.key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export_${column.key}`}
+                    checked={columns.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <label htmlFor={`export_${column.key}`} className="text-sm">
+                    {column.header}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>File Format</Label>
+            <Select value={fileFormat} onValueChange={(value) => setFileFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exportFormats.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{exportFormats.find(f => f.value === fileFormat)?.description}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Date Format</Label>
+            <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {dateFormats.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={exportDictionary} disabled={columns.length === 0}>
+            <BookOpen className="w-4 h-4 mr-2" />
+            Data Dictionary
+          </Button>
+          <Button onClick={exportTrips} disabled={columns.length === 0 || isExporting}>
+            <Download className="w-4 h-4 mr-2" />
+            {isExporting ? "Preparing..." : `Export ${count} Trips`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -5,52 +5,216 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Textarea } from "@/components/ui/textarea";
-import { MapPin, Clock, Users, Car } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import { MapPin, Clock, Users, Car, Route, Target, Navigation, Map as MapIcon, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/lib/supabase";
+import { queueTrip } from "@/lib/outbox";
+import { TripPayload, isNetworkError, saveTrip, updateTrip } from "@/lib/trip-sync";
+import { ExactTimes, TripLegDraft, TripRecord, emptyLeg, fromDateTimeInput, getModeSplit, isTimeShifted, sortLegs, toDateTimeInput, tripPurposes } from "@/lib/trips";
+import { LatLon, formatLatLon, getTripEndPoint } from "@/lib/geo";
+import { getPlaceById, getTripEndDistrict, resolvePlace, reverseGeocode } from "@/lib/gazetteer";
+import { GazetteerPlace } from "@/lib/kerala-gazetteer";
+import { ActiveTrace, encodePolyline, getTraceDistanceKm } from "@/lib/gps-trace";
+import { TravelParty, emptyParty, getTravelParty } from "@/lib/companions";
+import { ValidationIssue, getIssueSignature, hasErrors, toValidationFlags, validateTrip } from "@/lib/trip-validation";
+import { TripLegsEditor } from "./TripLegsEditor";
+import { LocationMapPicker } from "./LocationMapPicker";
+import { PlaceAutocomplete } from "./PlaceAutocomplete";
+import { TripRecorder } from "./TripRecorder";
+import { TripRecorderState } from "@/hooks/use-trip-recorder";
+import { TravelPartyEditor } from "./TravelPartyEditor";
 
 interface Trip {
   trip_number: string;
   origin: string;
   destination: string;
-  mode: string;
   start_time: string;
   end_time: string;
+  // Free-text answer from before companions were structured; kept read-only for reference
   companions: string;
+  party: TravelParty;
+  purpose: string;
+  purpose_other: string;
+  activity_duration_minutes: string;
+  origin_point: LatLon | null;
+  destination_point: LatLon | null;
+  origin_place_id: string | null;
+  destination_place_id: string | null;
+  route_polyline: string | null;
+  route_distance_km: number | null;
+  // The exact instants start_time and end_time were filled from, which the inputs only show to the minute
+  exact_times: ExactTimes | null;
+  legs: TripLegDraft[];
 }
 
+type TripTextField = { [K in keyof Trip]: Trip[K] extends string ? K : never }[keyof Trip];
+
+type TripEnd = "origin" | "destination";
+
+export type TripFormMode = "create" | "edit" | "duplicate";
+
 interface TripFormProps {
   onTripSaved: () => void;
+  initialTrip?: TripRecord & { pending?: boolean };
+  mode?: TripFormMode;
+  // The participant's other trips, checked for overlaps
+  existingTrips?: TripRecord[];
+  // GPS recorder for new trips; it lives in Dashboard so closing the form does not stop a recording
+  recorder?: TripRecorderState;
 }
 
-const transportModes = [
-  "Walking", "Bicycle", "Motorcycle", "Car", "Bus", "Train", "Metro", "Auto Rickshaw", "Taxi", "Other"
-];
+const formTitles: Record<TripFormMode, string> = {
+  create: "Record New Trip",
+  edit: "Edit Trip",
+  duplicate: "Duplicate Trip"
+};
+
+const emptyTrip = (): Trip => ({
+  trip_number: "",
+  origin: "",
+  destination: "",
+  start_time: "",
+  end_time: "",
+  companions: "",
+  party: emptyParty(),
+  purpose: "",
+  purpose_other: "",
+  activity_duration_minutes: "",
+  origin_point: null,
+  destination_point: null,
+  origin_place_id: null,
+  destination_place_id: null,
+  route_polyline: null,
+  route_distance_km: null,
+  exact_times: null,
+  legs: [emptyLeg()]
+});
+
+// Duplicates drop all times so they describe a new journey rather than the original one
+const tripToForm = (source: TripRecord, keepTimes: boolean): Trip => {
+  const legs = sortLegs(source.trip_legs);
+  const time = (value?: string) => (keepTimes ? toDateTimeInput(value) : "");
+
+  return {
+    trip_number: source.trip_number ?? "",
+    origin: source.origin,
+    destination: source.destination,
+    start_time: time(source.start_time),
+    end_time: time(source.end_time),
+    companions: source.companions ?? "",
+    party: getTravelParty(source) ?? emptyParty(),
+    purpose: source.purpose ?? "",
+    purpose_other: source.purpose_other ?? "",
+    activity_duration_minutes: source.activity_duration_minutes != null ? String(source.activity_duration_minutes) : "",
+    origin_point: getTripEndPoint(source, "origin"),
+    destination_point: getTripEndPoint(source, "destination"),
+    origin_place_id: source.origin_place_id ?? null,
+    destination_place_id: source.destination_place_id ?? null,
+    // A duplicate is a new journey, so it does not inherit the recorded route
+    route_polyline: keepTimes ? source.route_polyline ?? null : null,
+    route_distance_km: keepTimes ? source.route_distance_km ?? null : null,
+    // Detected trips carry times to the second, and saved ones must come back unchanged if left alone
+    exact_times: keepTimes ? { start: source.start_time ?? null, end: source.end_time ?? null } : null,
+    legs: legs.length
+      ? legs.map(leg => ({
+          mode: leg.mode,
+          origin: leg.origin ?? "",
+          destination: leg.destination ?? "",
+          start_time: time(leg.start_time),
+          end_time: time(leg.end_time),
+          exact_times: keepTimes ? { start: leg.start_time ?? null, end: leg.end_time ?? null } : undefined,
+          wait_minutes: leg.wait_minutes != null ? String(leg.wait_minutes) : ""
+        }))
+      : [{ ...emptyLeg(), mode: source.mode }]
+  };
+};
+
+const PlaceMatchNote = ({ placeId, point }: { placeId: string | null; point: LatLon | null }) => {
+  const place = getPlaceById(placeId);
+  if (place) return <p className="text-xs text-muted-foreground">Matched to {place.name}, {place.district}</p>;
+  if (point) return <p className="text-xs text-muted-foreground">Pinned at {formatLatLon(point)}</p>;
+  return null;
+};
+
+const ValidationSummary = ({ issues, confirmed, onConfirm }: {
+  issues: ValidationIssue[];
+  confirmed: boolean;
+  onConfirm: (checked: boolean) => void;
+}) => {
+  const errors = issues.filter(issue => issue.severity === "error");
+  const warnings = issues.filter(issue => issue.severity === "warning");
+
+  return (
+    <div className="space-y-3">
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="w-4 h-4" />
+          <AlertTitle>Please fix before saving</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {errors.map((issue, index) => <li key={index}>{issue.message}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      {errors.length === 0 && warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="w-4 h-4" />
+          <AlertTitle>Please check</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <ul className="list-disc pl-4 space-y-1">
+              {warnings.map((issue, index) => <li key={index}>{issue.message}</li>)}
+            </ul>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="confirm_warnings"
+                checked={confirmed}
+                onCheckedChange={(checked) => onConfirm(checked === true)}
+              />
+              <Label htmlFor="confirm_warnings">These details are correct</Label>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
 
-export const TripForm = ({ onTripSaved }: TripFormProps) => {
+export const TripForm = ({ onTripSaved, initialTrip, mode = "create", existingTrips = [], recorder }: TripFormProps) => {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
-  const [trip, setTrip] = useState<Trip>({
-    trip_number: "",
-    origin: "",
-    destination: "",
-    mode: "",
-    start_time: "",
-    end_time: "",
-    companions: ""
-  });
+  // Idempotency key for this trip, kept across retries until it is saved or queued
+  const [clientId, setClientId] = useState(() =>
+    mode === "edit" && initialTrip?.client_id ? initialTrip.client_id : crypto.randomUUID()
+  );
+  const [showMap, setShowMap] = useState(false);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  // Signature of the warnings the participant has confirmed; a change in any warning asks again
+  const [confirmedWarnings, setConfirmedWarnings] = useState("");
+  const [trip, setTrip] = useState<Trip>(() =>
+    initialTrip ? tripToForm(initialTrip, mode !== "duplicate") : emptyTrip()
+  );
 
   // Auto-detect location and time
   useEffect(() => {
+    // Never overwrite what the participant originally recorded
+    if (mode === "edit") return;
+
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
           const { latitude, longitude } = position.coords;
-          setTrip((prev) => ({
-            ...prev,
-            origin: prev.origin || `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`
-          }));
+          setTrip((prev) => {
+            if (prev.origin_point) return prev;
+            const point = { lat: latitude, lon: longitude };
+            // Suggest the nearest known place, but never replace a name the participant already typed
+            const place = prev.origin ? null : reverseGeocode(point);
+            return place
+              ? { ...prev, origin_point: point, origin: place.name, origin_place_id: place.id }
+              : { ...prev, origin_point: point };
+          });
         },
         (error) => {
           // Could not get location
@@ -60,21 +224,98 @@ export const TripForm = ({ onTripSaved }: TripFormProps) => {
     // Auto-fill start time if empty
     setTrip((prev) => ({
       ...prev,
-      start_time: prev.start_time || new Date().toISOString().slice(0, 16)
+      start_time: prev.start_time || toDateTimeInput(new Date())
     }));
-  }, []);
+  }, [mode]);
 
-  const handleInputChange = (field: keyof Trip, value: string) => {
+  const handleInputChange = (field: TripTextField, value: string) => {
     setTrip(prev => ({ ...prev, [field]: value }));
   };
 
+  // Typing a new name drops the previous gazetteer match; the pin stays until moved
+  const handleEndLabelChange = (end: TripEnd, value: string) => {
+    setTrip(prev => ({ ...prev, [end]: value, [`${end}_place_id`]: null }));
+  };
+
+  const handleEndPlaceSelect = (end: TripEnd, place: GazetteerPlace) => {
+    setTrip(prev => ({
+      ...prev,
+      [end]: place.name,
+      [`${end}_place_id`]: place.id,
+      [`${end}_point`]: { lat: place.lat, lon: place.lon }
+    }));
+  };
+
+  const handleEndPointPick = (end: TripEnd, point: LatLon) => {
+    setTrip(prev => {
+      const place = prev[end] ? null : reverseGeocode(point);
+      return {
+        ...prev,
+        [`${end}_point`]: point,
+        ...(place && { [end]: place.name, [`${end}_place_id`]: place.id })
+      };
+    });
+  };
+
+  // The trace is the best evidence of where and when the trip ran, so its ends replace pins and times;
+  // names are only suggested where the participant has not typed one
+  const handleTraceFinished = (trace: ActiveTrace) => {
+    const first = trace.points[0];
+    const last = trace.points[trace.points.length - 1];
+    const originPlace = reverseGeocode(first);
+    const destinationPlace = reverseGeocode(last);
+
+    setTrip(prev => ({
+      ...prev,
+      origin: prev.origin || originPlace?.name || "",
+      origin_place_id: prev.origin ? prev.origin_place_id : originPlace?.id ?? null,
+      origin_point: { lat: first.lat, lon: first.lon },
+      destination: prev.destination || destinationPlace?.name || "",
+      destination_place_id: prev.destination ? prev.destination_place_id : destinationPlace?.id ?? null,
+      destination_point: { lat: last.lat, lon: last.lon },
+      start_time: toDateTimeInput(first.timestamp),
+      end_time: toDateTimeInput(last.timestamp),
+      exact_times: { start: new Date(first.timestamp).toISOString(), end: new Date(last.timestamp).toISOString() },
+      route_polyline: encodePolyline(trace.points),
+      route_distance_km: Math.round(getTraceDistanceKm(trace.points) * 100) / 100
+    }));
+    setShowMap(false);
+  };
+
+  // Fill the outer ends of the chain from the trip itself so single-stage trips need no extra input
+  const buildLegs = () => {
+    const last = trip.legs.length - 1;
+    return trip.legs.map((leg, index) => ({
+      leg_number: index + 1,
+      mode: leg.mode,
+      origin: leg.origin || (index === 0 ? trip.origin : null),
+      destination: leg.destination || (index === last ? trip.destination : null),
+      start_time: leg.start_time
+        ? fromDateTimeInput(leg.start_time, leg.exact_times?.start)
+        : index === 0 ? fromDateTimeInput(trip.start_time, trip.exact_times?.start) : null,
+      end_time: leg.end_time
+        ? fromDateTimeInput(leg.end_time, leg.exact_times?.end)
+        : index === last ? fromDateTimeInput(trip.end_time, trip.exact_times?.end) : null,
+      wait_minutes: index > 0 && leg.wait_minutes ? Number(leg.wait_minutes) : null
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!trip.origin || !trip.destination || !trip.mode) {
+    if (!trip.origin || !trip.destination || !trip.purpose || trip.legs.some(leg => !leg.mode)) {
+      toast({
+        title: "Missing Information",
+        description: "Please fill in origin, destination, trip purpose, and a mode of transport for every stage.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (trip.purpose === "other" && !trip.purpose_other.trim()) {
       toast({
         title: "Missing Information",
-        description: "Please fill in origin, destination, and mode of transport.",
+        description: "Please describe the purpose of this trip.",
         variant: "destructive"
       });
       return;
@@ -83,7 +324,9 @@ export const TripForm = ({ onTripSaved }: TripFormProps) => {
     setIsLoading(true);
     
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      // Read the cached session so trips can still be recorded without a connection
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
       
       if (!user) {
         toast({
@@ -94,47 +337,149 @@ export const TripForm = ({ onTripSaved }: TripFormProps) => {
         return;
       }
 
-      const tripData = {
+      const legs = buildLegs();
+      const { mainMode, accessMode, egressMode } = getModeSplit(legs);
+      // Typed names that exactly match a gazetteer entry resolve too, not just picked suggestions
+      const originPlace = resolvePlace(trip.origin, trip.origin_place_id);
+      const destinationPlace = resolvePlace(trip.destination, trip.destination_place_id);
+
+      const tripData: TripPayload = {
+        client_id: clientId,
         user_id: user.id,
         trip_number: trip.trip_number || null,
         origin: trip.origin,
         destination: trip.destination,
-        mode: trip.mode,
-        start_time: trip.start_time || null,
-        end_time: trip.end_time || null,
-        companions: trip.companions || null
+        origin_lat: trip.origin_point?.lat ?? originPlace?.lat ?? null,
+        origin_lon: trip.origin_point?.lon ?? originPlace?.lon ?? null,
+        destination_lat: trip.destination_point?.lat ?? destinationPlace?.lat ?? null,
+        destination_lon: trip.destination_point?.lon ?? destinationPlace?.lon ?? null,
+        origin_place_id: originPlace?.id ?? null,
+        destination_place_id: destinationPlace?.id ?? null,
+        origin_district: null,
+        destination_district: null,
+        mode: mainMode,
+        access_mode: accessMode,
+        egress_mode: egressMode,
+        start_time: fromDateTimeInput(trip.start_time, trip.exact_times?.start),
+        end_time: fromDateTimeInput(trip.end_time, trip.exact_times?.end),
+        companions: trip.companions || null,
+        party: trip.party,
+        purpose: trip.purpose,
+        purpose_other: trip.purpose === "other" ? trip.purpose_other.trim() : null,
+        activity_duration_minutes: trip.activity_duration_minutes ? Number(trip.activity_duration_minutes) : null,
+        route_polyline: trip.route_polyline,
+        route_distance_km: trip.route_distance_km,
+        validation_flags: null
       };
+      // Stored so the research filters and map place the trip in the same district
+      tripData.origin_district = getTripEndDistrict(tripData, "origin");
+      tripData.destination_district = getTripEndDistrict(tripData, "destination");
+
+      const shifted =
+        isTimeShifted(trip.start_time, tripData.start_time) ||
+        isTimeShifted(trip.end_time, tripData.end_time) ||
+        trip.legs.some((leg, index) =>
+          isTimeShifted(leg.start_time, legs[index].start_time) || isTimeShifted(leg.end_time, legs[index].end_time)
+        );
+      if (shifted) {
+        toast({
+          title: "Please Check Your Times",
+          description: "One of the times could not be saved as entered. Please enter it again.",
+          variant: "destructive"
+        });
+        return;
+      }
 
-      const { error } = await supabase
-        .from('trips')
-        .insert([tripData]);
+      const found = validateTrip({ ...tripData, id: mode === "edit" ? initialTrip?.id : undefined }, legs, existingTrips);
+      setIssues(found);
 
-      if (error) {
-        console.error('Trip save error:', error);
+      if (hasErrors(found)) {
         toast({
-          title: "Error",
-          description: error.message || "Failed to save trip data.",
+          title: "Please Check Your Trip",
+          description: found.find(issue => issue.severity === "error")?.message,
           variant: "destructive"
         });
         return;
       }
-      
-      toast({
-        title: "Trip Saved Successfully",
-        description: "Your trip data has been recorded for transportation research.",
-        className: "bg-success text-success-foreground"
-      });
+
+      const flags = toValidationFlags(found);
+      if (flags.length && getIssueSignature(found) !== confirmedWarnings) {
+        toast({
+          title: "Please Confirm",
+          description: "Some details look unusual. Check them below and confirm they are correct before saving."
+        });
+        return;
+      }
+      // Kept with the trip so researchers can see what the participant confirmed
+      tripData.validation_flags = flags.length ? flags : null;
+
+      if (mode === "edit" && initialTrip && !initialTrip.pending) {
+        if (!navigator.onLine) {
+          toast({
+            title: "You Are Offline",
+            description: "Editing a synced trip needs a connection. Please try again once you are back online.",
+            variant: "destructive"
+          });
+          return;
+        }
+
+        const { error } = await updateTrip(initialTrip, tripData, legs);
+        if (error) {
+          console.error('Trip update error:', error);
+          toast({
+            title: "Error",
+            description: error.message || "Failed to update trip.",
+            variant: "destructive"
+          });
+          return;
+        }
+
+        toast({
+          title: "Trip Updated",
+          description: "Your changes have been saved.",
+          className: "bg-success text-success-foreground"
+        });
+        onTripSaved();
+        return;
+      }
+
+      // Edits to a trip still in the outbox simply replace the queued copy
+      let queued = !navigator.onLine || (mode === "edit" && !!initialTrip?.pending);
+
+      if (!queued) {
+        const { error } = await saveTrip(tripData, legs);
+
+        if (error && !isNetworkError(error)) {
+          console.error('Trip save error:', error);
+          toast({
+            title: "Error",
+            description: error.message || "Failed to save trip data.",
+            variant: "destructive"
+          });
+          return;
+        }
+        queued = !!error;
+      }
+
+      if (queued) {
+        await queueTrip(tripData, legs);
+        toast({
+          title: "Saved Offline",
+          description: "No connection right now. Your trip will be uploaded automatically once you are back online."
+        });
+      } else {
+        toast({
+          title: "Trip Saved Successfully",
+          description: "Your trip data has been recorded for transportation research.",
+          className: "bg-success text-success-foreground"
+        });
+      }
       
       // Reset form
-      setTrip({
-        trip_number: "",
-        origin: "",
-        destination: "",
-        mode: "",
-        start_time: "",
-        end_time: "",
-        companions: ""
-      });
+      setTrip(emptyTrip());
+      setClientId(crypto.randomUUID());
+      setIssues([]);
+      setConfirmedWarnings("");
       
       onTripSaved();
     } catch (error) {
@@ -154,12 +499,14 @@ export const TripForm = ({ onTripSaved }: TripFormProps) => {
       <CardHeader>
         <CardTitle className="flex items-center space-x-2">
           <Car className="w-5 h-5 text-primary" />
-          <span>Record New Trip</span>
+          <span>{formTitles[mode]}</span>
         </CardTitle>
       </CardHeader>
       
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
+          {mode === "create" && !initialTrip && recorder && <TripRecorder recorder={recorder} onFinish={handleTraceFinished} />}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="trip_number">Trip Number (Optional)</Label>
@@ -178,13 +525,15 @@ export const TripForm = ({ onTripSaved }: TripFormProps) => {
                 <MapPin className="w-4 h-4 text-primary" />
                 <span>Origin *</span>
               </Label>
-              <Input
+              <PlaceAutocomplete
                 id="origin"
                 value={trip.origin}
-                onChange={(e) => handleInputChange("origin", e.target.value)}
+                onChange={(value) => handleEndLabelChange("origin", value)}
+                onSelect={(place) => handleEndPlaceSelect("origin", place)}
                 placeholder="Starting location"
                 required
               />
+              <PlaceMatchNote placeId={trip.origin_place_id} point={trip.origin_point} />
             </div>
             
             <div className="space-y-2">
@@ -192,30 +541,47 @@ export const TripForm = ({ onTripSaved }: TripFormProps) => {
                 <MapPin className="w-4 h-4 text-accent" />
                 <span>Destination *</span>
               </Label>
-              <Input
+              <PlaceAutocomplete
                 id="destination"
                 value={trip.destination}
-                onChange={(e) => handleInputChange("destination", e.target.value)}
+                onChange={(value) => handleEndLabelChange("destination", value)}
+                onSelect={(place) => handleEndPlaceSelect("destination", place)}
                 placeholder="End location"
                 required
               />
+              <PlaceMatchNote placeId={trip.destination_place_id} point={trip.destination_point} />
             </div>
           </div>
 
+          {trip.route_polyline && (
+            <div className="flex items-center justify-between rounded-lg bg-muted px-3 py-2 text-sm">
+              <span className="flex items-center space-x-2">
+                <Navigation className="w-4 h-4 text-primary" />
+                <span>GPS route recorded · {trip.route_distance_km?.toFixed(1)} km</span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setTrip(prev => ({ ...prev, route_polyline: null, route_distance_km: null }))}
+              >
+                Remove
+              </Button>
+            </div>
+          )}
+
           <div className="space-y-2">
-            <Label htmlFor="mode">Mode of Transport *</Label>
-            <Select value={trip.mode} onValueChange={(value) => handleInputChange("mode", value)}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select transport mode" />
-              </SelectTrigger>
-              <SelectContent>
-                {transportModes.map((mode) => (
-                  <SelectItem key={mode} value={mode.toLowerCase()}>
-                    {mode}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowMap(prev => !prev)}>
+              <MapIcon className="w-4 h-4 mr-2" />
+              {showMap ? "Hide Map" : "Pick on Map"}
+            </Button>
+            {showMap && (
+              <LocationMapPicker
+                origin={trip.origin_point}
+                destination={trip.destination_point}
+                onChange={handleEndPointPick}
+              />
+            )}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -247,25 +613,91 @@ export const TripForm = ({ onTripSaved }: TripFormProps) => {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="companions" className="flex items-center space-x-1">
+            <Label className="flex items-center space-x-1">
+              <Route className="w-4 h-4 text-primary" />
+              <span>Stages *</span>
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Add a stage for each mode used, including walks to and from stops.
+            </p>
+            <TripLegsEditor
+              legs={trip.legs}
+              onChange={(legs) => setTrip(prev => ({ ...prev, legs }))}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="purpose" className="flex items-center space-x-1">
+                <Target className="w-4 h-4 text-primary" />
+                <span>Trip Purpose *</span>
+              </Label>
+              <Select value={trip.purpose} onValueChange={(value) => handleInputChange("purpose", value)}>
+                <SelectTrigger id="purpose">
+                  <SelectValue placeholder="Why did you make this trip?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tripPurposes.map((purpose) => (
+                    <SelectItem key={purpose.value} value={purpose.value}>
+                      {purpose.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="activity_duration_minutes">Time Spent at Destination (minutes)</Label>
+              <Input
+                id="activity_duration_minutes"
+                type="number"
+                min={0}
+                value={trip.activity_duration_minutes}
+                onChange={(e) => handleInputChange("activity_duration_minutes", e.target.value)}
+                placeholder="e.g., 480"
+              />
+            </div>
+          </div>
+
+          {trip.purpose === "other" && (
+            <div className="space-y-2">
+              <Label htmlFor="purpose_other">Describe Purpose *</Label>
+              <Input
+                id="purpose_other"
+                value={trip.purpose_other}
+                onChange={(e) => handleInputChange("purpose_other", e.target.value)}
+                placeholder="What was the activity at the destination?"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="flex items-center space-x-1">
               <Users className="w-4 h-4 text-accent" />
               <span>Travel Companions</span>
             </Label>
-            <Textarea
-              id="companions"
-              value={trip.companions}
-              onChange={(e) => handleInputChange("companions", e.target.value)}
-              placeholder="Number and details of accompanying travelers (optional)"
-              rows={3}
-            />
+            <TravelPartyEditor party={trip.party} onChange={(party) => setTrip(prev => ({ ...prev, party }))} />
+            {trip.companions && (
+              <p className="text-xs text-muted-foreground">
+                You originally wrote “{trip.companions}”. Please check the numbers above match.
+              </p>
+            )}
           </div>
 
+          {issues.length > 0 && (
+            <ValidationSummary
+              issues={issues}
+              confirmed={getIssueSignature(issues) === confirmedWarnings}
+              onConfirm={(checked) => setConfirmedWarnings(checked ? getIssueSignature(issues) : "")}
+            />
+          )}
+
           <Button 
             type="submit" 
             className="w-full bg-gradient-primary hover:bg-primary-hover transition-smooth"
             disabled={isLoading}
           >
-            {isLoading ? "Saving..." : "Save Trip"}
+            {isLoading ? "Saving..." : mode === "edit" ? "Save Changes" : "Save Trip"}
           </Button>
         </form>
       </CardContent>
@@ -0,0 +1,37 @@
+import { Fragment } from "react";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight, Timer } from "lucide-react";
+import { TripLeg, formatMode, getMainLegIndex, sortLegs } from "@/lib/trips";
+
+interface TripLegChainProps {
+  legs?: TripLeg[];
+}
+
+export const TripLegChain = ({ legs }: TripLegChainProps) => {
+  const sorted = sortLegs(legs);
+  if (sorted.length < 2) return null;
+
+  const mainIndex = getMainLegIndex(sorted);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {sorted.map((leg, index) => (
+        <Fragment key={leg.id ?? index}>
+          {index > 0 && <ArrowRight className="w-4 h-4 text-muted-foreground" />}
+          {index > 0 && !!leg.wait_minutes && (
+            <span className="flex items-center text-xs text-muted-foreground">
+              <Timer className="w-3 h-3 mr-1" />
+              {leg.wait_minutes} min
+            </span>
+          )}
+          <Badge
+            variant={index === mainIndex ? "default" : "outline"}
+            title={[leg.origin, leg.destination].filter(Boolean).join(" → ")}
+          >
+            {formatMode(leg.mode)}
+          </Badge>
+        </Fragment>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { TripLegDraft, emptyLeg, transportModes } from "@/lib/trips";
+
+interface TripLegsEditorProps {
+  legs: TripLegDraft[];
+  onChange: (legs: TripLegDraft[]) => void;
+}
+
+export const TripLegsEditor = ({ legs, onChange }: TripLegsEditorProps) => {
+  const updateLeg = (index: number, field: keyof TripLegDraft, value: string) => {
+    onChange(legs.map((leg, i) => (i === index ? { ...leg, [field]: value } : leg)));
+  };
+
+  const moveLeg = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= legs.length) return;
+    const next = [...legs];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeLeg = (index: number) => {
+    onChange(legs.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {legs.map((leg, index) => (
+        <div key={index} className="border rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Stage {index + 1}</span>
+            <div className="flex items-center space-x-1">
+              <Button type="button" variant="ghost" size="icon" onClick={() => moveLeg(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" onClick={() => moveLeg(index, 1)} disabled={index === legs.length - 1}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" onClick={() => removeLeg(index)} disabled={legs.length === 1}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`leg_${index}_mode`}>Mode *</Label>
+              <Select value={leg.mode} onValueChange={(value) => updateLeg(index, "mode", value)}>
+                <SelectTrigger id={`leg_${index}_mode`}>
+                  <SelectValue placeholder="Select transport mode" />
+                </SelectTrigger>
+                <SelectContent>
+                  {transportModes.map((mode) => (
+                    <SelectItem key={mode} value={mode.toLowerCase()}>
+                      {mode}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {index > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor={`leg_${index}_wait`}>Wait / Transfer (minutes)</Label>
+                <Input
+                  id={`leg_${index}_wait`}
+                  type="number"
+                  min={0}
+                  value={leg.wait_minutes}
+                  onChange={(e) => updateLeg(index, "wait_minutes", e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`leg_${index}_origin`}>From</Label>
+              <Input
+                id={`leg_${index}_origin`}
+                value={leg.origin}
+                onChange={(e) => updateLeg(index, "origin", e.target.value)}
+                placeholder={index === 0 ? "Trip origin" : "Boarding point"}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`leg_${index}_destination`}>To</Label>
+              <Input
+                id={`leg_${index}_destination`}
+                value={leg.destination}
+                onChange={(e) => updateLeg(index, "destination", e.target.value)}
+                placeholder={index === legs.length - 1 ? "Trip destination" : "Alighting point"}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`leg_${index}_start`}>Start Time</Label>
+              <Input
+                id={`leg_${index}_start`}
+                type="datetime-local"
+                value={leg.start_time}
+                onChange={(e) => updateLeg(index, "start_time", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`leg_${index}_end`}>End Time</Label>
+              <Input
+                id={`leg_${index}_end`}
+                type="datetime-local"
+                value={leg.end_time}
+                onChange={(e) => updateLeg(index, "end_time", e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" onClick={() => onChange([...legs, emptyLeg()])} className="w-full">
+        <Plus className="w-4 h-4 mr-2" />
+        Add Stage
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Navigation, Play, Square, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { TripRecorderState } from "@/hooks/use-trip-recorder";
+import { ActiveTrace, DEFAULT_SAMPLING_INTERVAL, getTraceDistanceKm, samplingIntervals } from "@/lib/gps-trace";
+
+interface TripRecorderProps {
+  // Owned by Dashboard, so the recording outlives this form
+  recorder: TripRecorderState;
+  onFinish: (trace: ActiveTrace) => void;
+}
+
+export const TripRecorder = ({ recorder, onFinish }: TripRecorderProps) => {
+  const { toast } = useToast();
+  const { trace, loaded, recording, error, start, stop, setIntervalSeconds } = recorder;
+  const [samplingInterval, setSamplingInterval] = useState(trace?.interval_seconds ?? DEFAULT_SAMPLING_INTERVAL);
+
+  const handleIntervalChange = (value: string) => {
+    setSamplingInterval(Number(value));
+    setIntervalSeconds(Number(value));
+  };
+
+  const handleEnd = () => {
+    const finished = stop();
+    if (!finished || finished.points.length < 2) {
+      toast({
+        title: "Trace Too Short",
+        description: "Not enough GPS fixes were recorded to describe a route. Please enter the trip by hand.",
+        variant: "destructive"
+      });
+      return;
+    }
+    onFinish(finished);
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Navigation className="w-4 h-4 text-primary" />
+          <span className="font-medium">Record with GPS</span>
+          {recording && <Badge variant="destructive">Recording</Badge>}
+        </div>
+        <Select value={String(samplingInterval)} onValueChange={handleIntervalChange}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {samplingIntervals.map((option) => (
+              <SelectItem key={option.value} value={String(option.value)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {recording ? (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Since {format(new Date(trace.started_at), "HH:mm")} · {trace.points.length} points ·{" "}
+            {getTraceDistanceKm(trace.points).toFixed(1)} km
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={handleEnd}>
+              <Square className="w-4 h-4 mr-2" />
+              End Trip
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={stop}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Discard
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Start when you set off and end when you arrive. Origin, destination and times are filled in from the route.
+          </p>
+          <Button type="button" size="sm" variant="outline" disabled={!loaded} onClick={() => start(samplingInterval)}>
+            <Play className="w-4 h-4 mr-2" />
+            Start Trip
+          </Button>
+        </>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { format } from "date-fns";
+import { AlertTriangle, Hourglass, Unlink } from "lucide-react";
+import { TripRecord, formatMode } from "@/lib/trips";
+import { buildTimeline, formatGap } from "@/lib/trip-timeline";
+
+interface TripTimelineProps {
+  trips: TripRecord[];
+}
+
+export const TripTimeline = ({ trips }: TripTimelineProps) => {
+  const entries = buildTimeline(trips);
+
+  return (
+    <ol className="border-l border-muted ml-2 space-y-4">
+      {entries.map(({ trip, gapMinutes, overlapMinutes, chainBreak }) => (
+        <li key={trip.id} className="relative ml-4 space-y-1">
+          {(gapMinutes != null || overlapMinutes != null || chainBreak) && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+              {gapMinutes != null && (
+                <span className="flex items-center text-muted-foreground">
+                  <Hourglass className="w-3 h-3 mr-1" />
+                  {formatGap(gapMinutes)} between trips
+                </span>
+              )}
+              {overlapMinutes != null && (
+                <span className="flex items-center text-destructive">
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  Overlaps the previous trip by {formatGap(overlapMinutes)}
+                </span>
+              )}
+              {chainBreak && (
+                <span className="flex items-center text-warning">
+                  <Unlink className="w-3 h-3 mr-1" />
+                  Starts somewhere other than where the last trip ended — is a trip missing?
+                </span>
+              )}
+            </div>
+          )}
+          <span
+            className={`absolute -left-[1.4rem] top-1.5 w-3 h-3 rounded-full ${overlapMinutes != null ? "bg-destructive" : "bg-primary"}`}
+          />
+          <p className="text-xs text-muted-foreground">
+            {trip.start_time ? format(new Date(trip.start_time), "HH:mm") : "Time not given"}
+            {trip.end_time && `–${format(new Date(trip.end_time), "HH:mm")}`}
+          </p>
+          <p className="text-sm font-medium">
+            {trip.origin} → {trip.destination}
+          </p>
+          <p className="text-xs text-muted-foreground">{formatMode(trip.mode)}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
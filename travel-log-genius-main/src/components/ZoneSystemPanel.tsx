@@ -0,0 +1,261 @@
+import { ChangeEvent, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, Layers, RefreshCw, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { TrafficZone, ZoneAssignmentResult, ZoneCount, ZoneFile, buildZones, guessZoneProperty, parseZoneFile, reassignTripZones, replaceZones } from "@/lib/zone-system";
+
+interface ZoneSystemPanelProps {
+  zones: TrafficZone[];
+  counts: ZoneCount[];
+  tripCount: number;
+  canManage: boolean;
+  onChanged: () => void;
+}
+
+// Select items cannot have an empty value
+const NO_NAME_PROPERTY = "none";
+
+export const ZoneSystemPanel = ({ zones, counts, tripCount, canManage, onChanged }: ZoneSystemPanelProps) => {
+  const { toast } = useToast();
+  const [upload, setUpload] = useState<{ fileName: string; file: ZoneFile } | null>(null);
+  const [idKey, setIdKey] = useState("");
+  const [nameKey, setNameKey] = useState(NO_NAME_PROPERTY);
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const preview = useMemo(
+    () => (upload && idKey ? buildZones(upload.file, idKey, nameKey === NO_NAME_PROPERTY ? "" : nameKey) : null),
+    [upload, idKey, nameKey]
+  );
+
+  const zoneCounts = useMemo(() => new Map(counts.map(count => [count.zone_id, count])), [counts]);
+
+  // Each assigned end lies in exactly one zone, so the zone totals add up to the assigned ends
+  const assignedEnds = counts.reduce((sum, count) => sum + count.origins + count.destinations, 0);
+  const updatedAt = zones.map(zone => zone.updated_at).filter(Boolean).sort().pop();
+
+  const reportError = (title: string, error: { message?: string }) => {
+    console.error('Zone system error:', error);
+    toast({
+      title,
+      description: error.message || "Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+
+    const { data, error } = parseZoneFile(await selected.text());
+    if (error) {
+      toast({ title: "Cannot Read Zone File", description: error.message, variant: "destructive" });
+      return;
+    }
+    setUpload({ fileName: selected.name, file: data });
+    setIdKey(guessZoneProperty(data.propertyKeys, "id"));
+    setNameKey(guessZoneProperty(data.propertyKeys, "name") || NO_NAME_PROPERTY);
+  };
+
+  const reportAssignment = (title: string, result: ZoneAssignmentResult) => {
+    toast({
+      title,
+      description: `${result.updated} of ${result.checked} trips changed zone. ${result.unassignedEnds} trip ends lie outside every zone or have no location.`,
+      className: "bg-success text-success-foreground"
+    });
+  };
+
+  const handleReassign = async () => {
+    setProgress("Assigning trips to zones…");
+    const { data, error } = await reassignTripZones();
+    setProgress(null);
+    if (error) {
+      reportError("Zone Assignment Failed", error);
+      return;
+    }
+    reportAssignment("Zones Assigned", data);
+    onChanged();
+  };
+
+  const handleReplace = async () => {
+    if (!preview?.zones.length) return;
+    setConfirmReplace(false);
+    setProgress("Saving zones and assigning trips…");
+    const { data, error } = await replaceZones(preview.zones);
+    setProgress(null);
+    if (error) {
+      reportError("Zones Not Saved", error);
+      return;
+    }
+    setUpload(null);
+    reportAssignment("Zones Replaced", data);
+    onChanged();
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Layers className="w-5 h-5 text-primary" />
+          <span>Traffic Analysis Zones</span>
+        </CardTitle>
+        <CardDescription>
+          {zones.length
+            ? `${zones.length} zones${updatedAt ? `, uploaded ${new Date(updatedAt).toLocaleString()}` : ""}. ` +
+              `${assignedEnds} of ${tripCount * 2} trip ends in the current selection fall in a zone.`
+            : "No zone system yet. Trips are assigned to zones once boundaries are uploaded."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zone_file">Zone Boundaries (GeoJSON)</Label>
+                <Input
+                  id="zone_file"
+                  type="file"
+                  accept=".geojson,.json,application/geo+json,application/json"
+                  onChange={handleFile}
+                  disabled={!!progress}
+                />
+              </div>
+              <Button variant="outline" onClick={handleReassign} disabled={!!progress || zones.length === 0}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Re-run Assignment
+              </Button>
+            </div>
+
+            {upload && (
+              <div className="border rounded-lg p-4 space-y-4">
+                <p className="text-sm">
+                  <span className="font-medium">{upload.fileName}</span>
+                  <span className="text-muted-foreground"> · {upload.file.features.length} polygons</span>
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Zone ID Property</Label>
+                    <Select value={idKey} onValueChange={setIdKey}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a property" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {upload.file.propertyKeys.map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {key}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Zone Name Property</Label>
+                    <Select value={nameKey} onValueChange={setNameKey}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_NAME_PROPERTY}>None (use the ID)</SelectItem>
+                        {upload.file.propertyKeys.map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {key}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {preview && preview.problems.length > 0 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Check the file</AlertTitle>
+                    <AlertDescription>
+                      <ul className="list-disc pl-4">
+                        {preview.problems.map((problem) => (
+                          <li key={problem}>{problem}</li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex items-center justify-end gap-2">
+                  <Button variant="ghost" onClick={() => setUpload(null)} disabled={!!progress}>
+                    Cancel
+                  </Button>
+                  <Button onClick={() => setConfirmReplace(true)} disabled={!!progress || !preview?.zones.length}>
+                    <Upload className="w-4 h-4 mr-2" />
+                    {preview?.zones.length ? `Replace With ${preview.zones.length} Zones` : "Replace Zones"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {progress && <p className="text-sm text-muted-foreground">{progress}</p>}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Only administrators can upload zone boundaries.</p>
+        )}
+
+        {zones.length > 0 && (
+          <div className="max-h-64 overflow-y-auto border rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-background">
+                <tr className="border-b">
+                  <th className="p-2 text-left font-medium">Zone ID</th>
+                  <th className="p-2 text-left font-medium">Name</th>
+                  <th className="p-2 text-right font-medium">Trips From</th>
+                  <th className="p-2 text-right font-medium">Trips To</th>
+                </tr>
+              </thead>
+              <tbody>
+                {zones.map((zone) => (
+                  <tr key={zone.zone_id} className="border-b last:border-0">
+                    <td className="p-2 font-mono">{zone.zone_id}</td>
+                    <td className="p-2">{zone.name}</td>
+                    <td className="p-2 text-right">{zoneCounts.get(zone.zone_id)?.origins ?? 0}</td>
+                    <td className="p-2 text-right">{zoneCounts.get(zone.zone_id)?.destinations ?? 0}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmReplace} onOpenChange={setConfirmReplace}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace the zone system?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {zones.length ? `The current ${zones.length} zones will be deleted and` : "The"} {preview?.zones.length} zones
+              from {upload?.fileName} saved in their place, and every trip assigned to the new zones in the same step. If
+              anything fails, the current zones are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReplace}>Replace</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
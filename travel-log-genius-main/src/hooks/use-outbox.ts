@@ -0,0 +1,54 @@
+import * as React from "react";
+import { OutboxEntry, getQueuedTrips } from "@/lib/outbox";
+import { syncOutbox } from "@/lib/trip-sync";
+
+const RETRY_INTERVAL = 30 * 1000;
+
+export function useOutbox(userId: string | undefined, onSynced?: () => void) {
+  const [pending, setPending] = React.useState<OutboxEntry[]>([]);
+  const onSyncedRef = React.useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refresh = React.useCallback(async () => {
+    if (!userId) {
+      setPending([]);
+      return;
+    }
+    try {
+      setPending(await getQueuedTrips(userId));
+    } catch (error) {
+      console.error('Outbox read error:', error);
+    }
+  }, [userId]);
+
+  const runSync = React.useCallback(async (force: boolean) => {
+    try {
+      const synced = await syncOutbox(force);
+      if (synced > 0) onSyncedRef.current?.();
+    } catch (error) {
+      console.error('Outbox sync error:', error);
+    }
+  }, []);
+
+  const sync = React.useCallback(() => runSync(false), [runSync]);
+
+  // The Sync button retries every queued trip straight away, including ones waiting out a backoff
+  const syncNow = React.useCallback(() => runSync(true), [runSync]);
+
+  React.useEffect(() => {
+    refresh();
+    sync();
+
+    window.addEventListener("outbox-change", refresh);
+    window.addEventListener("online", sync);
+    const timer = window.setInterval(sync, RETRY_INTERVAL);
+
+    return () => {
+      window.removeEventListener("outbox-change", refresh);
+      window.removeEventListener("online", sync);
+      window.clearInterval(timer);
+    };
+  }, [refresh, sync]);
+
+  return { pending, syncNow };
+}
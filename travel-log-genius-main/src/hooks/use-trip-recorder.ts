@@ -0,0 +1,105 @@
+import * as React from "react";
+import { ActiveTrace, TraceKind, shouldRecordPoint } from "@/lib/gps-trace";
+import { appendTracePoint, clearStoredTrace, loadStoredTrace, saveTraceSettings, startStoredTrace } from "@/lib/trace-store";
+
+const logStoreError = (error: unknown) => console.error('Trace store error:', error);
+
+// Mounted once in Dashboard so recording carries on while forms open and close. Each fix is appended to
+// IndexedDB on its own, so a long trace costs the same to extend as a short one and survives a reload.
+export function useTripRecorder(kind: TraceKind = "trip") {
+  const [trace, setTraceState] = React.useState<ActiveTrace | null>(null);
+  const [loaded, setLoaded] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  // The watch callback reads the latest trace from here rather than from a stale render
+  const traceRef = React.useRef<ActiveTrace | null>(null);
+  const recording = trace !== null && !trace.paused;
+
+  const setTrace = React.useCallback((next: ActiveTrace | null) => {
+    traceRef.current = next;
+    setTraceState(next);
+  }, []);
+
+  // Picks up a recording that was still running when the page was closed
+  React.useEffect(() => {
+    let cancelled = false;
+    loadStoredTrace(kind)
+      .then(stored => {
+        if (!cancelled && stored) setTrace(stored);
+      })
+      .catch(logStoreError)
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, setTrace]);
+
+  React.useEffect(() => {
+    if (!recording) return;
+    if (!navigator.geolocation) {
+      setError("Location is not available on this device.");
+      return;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        setError(null);
+        const point = {
+          lat: position.coords.latitude,
+          lon: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          timestamp: position.timestamp
+        };
+        const current = traceRef.current;
+        if (!current || !shouldRecordPoint(current.points[current.points.length - 1], point, current.interval_seconds)) return;
+        setTrace({ ...current, points: [...current.points, point] });
+        appendTracePoint(point, kind).catch(logStoreError);
+      },
+      (positionError) => setError(positionError.message),
+      { enableHighAccuracy: true, maximumAge: 0 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [recording, kind, setTrace]);
+
+  const updateSettings = React.useCallback(
+    (changes: Partial<Omit<ActiveTrace, "points">>) => {
+      if (!traceRef.current) return;
+      const next = { ...traceRef.current, ...changes };
+      setTrace(next);
+      saveTraceSettings(next, kind).catch(logStoreError);
+    },
+    [kind, setTrace]
+  );
+
+  const start = React.useCallback(
+    (intervalSeconds: number) => {
+      const next = { started_at: new Date().toISOString(), interval_seconds: intervalSeconds, points: [] };
+      setError(null);
+      setTrace(next);
+      startStoredTrace(next, kind).catch(logStoreError);
+    },
+    [kind, setTrace]
+  );
+
+  const setIntervalSeconds = React.useCallback(
+    (intervalSeconds: number) => updateSettings({ interval_seconds: intervalSeconds }),
+    [updateSettings]
+  );
+
+  // Pausing keeps the points so they can still be reviewed
+  const setPaused = React.useCallback((paused: boolean) => updateSettings({ paused }), [updateSettings]);
+
+  // Returns the finished trace and forgets it locally; the caller decides whether it becomes a trip
+  const stop = React.useCallback(() => {
+    const finished = traceRef.current;
+    setTrace(null);
+    clearStoredTrace(kind).catch(logStoreError);
+    return finished;
+  }, [kind, setTrace]);
+
+  return { trace, loaded, recording, error, start, stop, setIntervalSeconds, setPaused };
+}
+
+export type TripRecorderState = ReturnType<typeof useTripRecorder>;
@@ -0,0 +1,153 @@
+import { TripRecord, formatMode } from "./trips";
+import { getPartySize, isJointTrip, parseCompanions } from "./companions";
+import { getStudyAreaHour } from "./study-area-time";
+
+export type AnalyticsTrip = Pick<TripRecord, "mode" | "start_time" | "end_time">;
+
+// Modes where everyone in the party shares one vehicle, so party size is the vehicle occupancy
+export const privateVehicleModes = ["car", "motorcycle", "taxi", "auto rickshaw"];
+
+const weekdays = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export const durationBins = [
+  { label: "0–10", min: 0, max: 10 },
+  { label: "10–20", min: 10, max: 20 },
+  { label: "20–30", min: 20, max: 30 },
+  { label: "30–45", min: 30, max: 45 },
+  { label: "45–60", min: 45, max: 60 },
+  { label: "60–90", min: 60, max: 90 },
+  { label: "90+", min: 90, max: Infinity },
+];
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+export const getTripDurationMinutes = (trip: AnalyticsTrip) => {
+  if (!trip.start_time || !trip.end_time) return null;
+  const minutes = (new Date(trip.end_time).getTime() - new Date(trip.start_time).getTime()) / 60000;
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+};
+
+// Counts as research_trip_summary returns them; the dashboard never downloads the trips behind them
+export interface ModeCount {
+  mode: string;
+  count: number;
+}
+
+export interface HourCount {
+  hour: number;
+  count: number;
+}
+
+export interface WeekdayCount {
+  // 0 is Monday
+  day: number;
+  count: number;
+}
+
+export interface DurationCount {
+  // Index into durationBins
+  bin: number;
+  count: number;
+}
+
+// Trips sharing a mode and party; older free-text answers arrive as companions text instead of a size
+export interface PartyGroup {
+  mode: string;
+  party_size: number | null;
+  joint: boolean;
+  companions: string | null;
+  count: number;
+}
+
+const sumCounts = (rows: { count: number }[]) => rows.reduce((sum, row) => sum + row.count, 0);
+
+export const toModeShare = (counts: ModeCount[]) => {
+  const total = sumCounts(counts);
+  return counts
+    .map(({ mode, count }) => ({
+      mode,
+      label: formatMode(mode),
+      count,
+      share: total ? (count / total) * 100 : 0
+    }))
+    .sort((a, b) => b.count - a.count);
+};
+
+export const getModeShare = (trips: AnalyticsTrip[]) => {
+  const counts = trips.reduce((acc, trip) => {
+    acc[trip.mode] = (acc[trip.mode] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  return toModeShare(Object.entries(counts).map(([mode, count]) => ({ mode, count })));
+};
+
+export const toHourlyDistribution = (counts: HourCount[]) => {
+  const buckets = new Array(24).fill(0);
+  counts.forEach(({ hour, count }) => {
+    buckets[hour] += count;
+  });
+  return buckets.map((count, hour) => ({ hour, label: formatHour(hour), count }));
+};
+
+// Kerala clock hours, the same buckets research_trip_summary uses
+export const getHourlyDistribution = (trips: AnalyticsTrip[]) =>
+  toHourlyDistribution(
+    trips.filter(trip => trip.start_time).map(trip => ({ hour: getStudyAreaHour(new Date(trip.start_time)), count: 1 }))
+  );
+
+export const toWeekdayDistribution = (counts: WeekdayCount[]) => {
+  const buckets = new Array(7).fill(0);
+  counts.forEach(({ day, count }) => {
+    buckets[day] += count;
+  });
+  return buckets.map((count, index) => ({ day: weekdays[index], count }));
+};
+
+export const toDurationHistogram = (counts: DurationCount[]) =>
+  durationBins.map((bin, index) => ({
+    label: bin.label,
+    count: sumCounts(counts.filter(row => row.bin === index))
+  }));
+
+type HourlyBucket = ReturnType<typeof getHourlyDistribution>[number];
+
+const busiest = (buckets: HourlyBucket[]) => {
+  const top = buckets.reduce<HourlyBucket | null>((best, b) => (!best || b.count > best.count ? b : best), null);
+  return top && top.count > 0 ? { ...top, range: `${top.label}–${formatHour((top.hour + 1) % 24)}` } : null;
+};
+
+// Peak hour over the whole day plus the separate morning and evening peaks planners report on
+export const getPeakHours = (hourly: HourlyBucket[]) => ({
+  overall: busiest(hourly),
+  am: busiest(hourly.filter(b => b.hour < 12)),
+  pm: busiest(hourly.filter(b => b.hour >= 12))
+});
+
+const getGroupPartySize = (group: PartyGroup) => group.party_size ?? getPartySize(parseCompanions(group.companions));
+
+const isJointGroup = (group: PartyGroup) => group.joint || isJointTrip(parseCompanions(group.companions));
+
+export const getOccupancyByMode = (parties: PartyGroup[]) =>
+  privateVehicleModes
+    .map(mode => {
+      const groups = parties.filter(group => group.mode === mode);
+      const trips = sumCounts(groups);
+      return {
+        mode,
+        label: formatMode(mode),
+        trips,
+        occupancy: trips ? groups.reduce((sum, group) => sum + getGroupPartySize(group) * group.count, 0) / trips : 0
+      };
+    })
+    .filter(row => row.trips > 0);
+
+export const getCompanionSummary = (parties: PartyGroup[]) => {
+  const trips = sumCounts(parties);
+  const group = sumCounts(parties.filter(party => getGroupPartySize(party) > 1));
+  const joint = sumCounts(parties.filter(isJointGroup));
+  return {
+    groupShare: trips ? (group / trips) * 100 : 0,
+    jointShare: trips ? (joint / trips) * 100 : 0,
+    averagePartySize: trips ? parties.reduce((sum, party) => sum + getGroupPartySize(party) * party.count, 0) / trips : 0
+  };
+};
@@ -0,0 +1,116 @@
+import { HouseholdMember, ageBands, genders, getOptionLabel } from "./household";
+
+// Who travelled with the participant; the participant is never counted
+export interface TravelParty {
+  adults: number;
+  children: number;
+  // Indices into the participant's household roster (index 0 is the participant)
+  household_members: number[];
+  non_household: number;
+  // Set when the party was reconstructed from an old free-text answer rather than entered
+  parsed?: boolean;
+}
+
+export const emptyParty = (): TravelParty => ({
+  adults: 0,
+  children: 0,
+  household_members: [],
+  non_household: 0
+});
+
+export const isChildMember = (member?: HouseholdMember) => member?.age_band === "under_15";
+
+export const describeMember = (member: HouseholdMember, index: number) =>
+  [`Member ${index + 1}`, getOptionLabel(ageBands, member.age_band), getOptionLabel(genders, member.gender)]
+    .filter(Boolean)
+    .join(" · ");
+
+// Raises the head counts so they always cover everyone picked from the roster plus the outsiders
+export const normalizeParty = (party: TravelParty, roster: HouseholdMember[]): TravelParty => {
+  const selectedChildren = party.household_members.filter(index => isChildMember(roster[index])).length;
+  const selectedAdults = party.household_members.length - selectedChildren;
+  const children = Math.max(party.children, selectedChildren);
+  const adults = Math.max(party.adults, selectedAdults, party.household_members.length + party.non_household - children);
+  return { ...party, adults, children };
+};
+
+export const getCompanionCount = (party?: TravelParty | null) => (party ? party.adults + party.children : 0);
+
+// Everyone in the party including the participant, i.e. vehicle occupancy for private modes
+export const getPartySize = (party?: TravelParty | null) => 1 + getCompanionCount(party);
+
+// A joint trip is one made together with at least one other member of the household
+export const isJointTrip = (party?: TravelParty | null) => (party?.household_members.length ?? 0) > 0;
+
+const numberWords: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+const childWords = /^(child|children|kid|kids|son|sons|daughter|daughters|baby|babies|infant|grandchild|grandchildren)$/;
+const householdAdultWords = /^(wife|husband|spouse|mother|father|mom|mum|dad|amma|achan|parent|parents|brother|sister|grandmother|grandfather|family)$/;
+const outsiderWords = /^(friend|friends|colleague|colleagues|coworker|coworkers|neighbour|neighbours|neighbor|neighbors|classmate|classmates|guest|guests)$/;
+const genericWords = /^(adult|adults|person|persons|people|others?|members?)$/;
+const aloneAnswers = /^(none|no|nil|nobody|no one|alone|self|myself|solo|0|-|n\/?a)$/;
+
+// Best-effort reading of the old free-text answers ("wife and 2 kids", "3 colleagues", "2")
+export const parseCompanions = (text?: string | null): TravelParty | null => {
+  const value = text?.trim().toLowerCase();
+  if (!value) return null;
+  if (aloneAnswers.test(value)) return { ...emptyParty(), parsed: true };
+
+  const words = value.replace(/[^a-z0-9/ ]/g, " ").split(/\s+/).filter(Boolean);
+  const party = { ...emptyParty(), parsed: true };
+  let householdAdults = 0;
+  let recognised = false;
+
+  words.forEach((word, index) => {
+    const previous = words[index - 1];
+    const count = previous ? Number(previous) || numberWords[previous] || 1 : 1;
+    // "parents" is two people even without a number in front of it
+    const people = word === "parents" && !(previous && (Number(previous) || numberWords[previous])) ? 2 : count;
+
+    if (childWords.test(word)) {
+      party.children += people;
+      recognised = true;
+    } else if (householdAdultWords.test(word)) {
+      householdAdults += word === "family" ? 0 : people;
+      recognised = true;
+    } else if (outsiderWords.test(word)) {
+      party.adults += people;
+      party.non_household += people;
+      recognised = true;
+    } else if (genericWords.test(word)) {
+      party.adults += people;
+      recognised = true;
+    }
+  });
+
+  party.adults += householdAdults;
+  // "with family" names nobody in particular but still means company
+  if (recognised && getCompanionCount(party) === 0) party.adults = 1;
+
+  if (!recognised) {
+    const bare = words.map(word => Number(word) || numberWords[word]).find(Boolean);
+    // Something was written, so at least one person came along
+    party.adults = bare ?? 1;
+  }
+
+  return party;
+};
+
+// New trips carry a structured party; older ones fall back to parsing their free text
+export const getTravelParty = (trip: { party?: TravelParty | null; companions?: string | null }) =>
+  trip.party ?? parseCompanions(trip.companions);
+
+export const formatParty = (party?: TravelParty | null) => {
+  if (!party || getCompanionCount(party) === 0) return "Travelled alone";
+  const parts = [
+    party.adults && `${party.adults} adult${party.adults === 1 ? "" : "s"}`,
+    party.children && `${party.children} child${party.children === 1 ? "" : "ren"}`
+  ].filter(Boolean);
+  const detail = [
+    party.household_members.length && `${party.household_members.length} from household`,
+    party.non_household && `${party.non_household} from outside`
+  ].filter(Boolean);
+  return detail.length ? `${parts.join(", ")} (${detail.join(", ")})` : parts.join(", ");
+};
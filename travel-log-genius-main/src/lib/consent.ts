@@ -0,0 +1,107 @@
+import { supabase } from "./supabase";
+
+// Bump whenever the wording in ConsentPage changes so every participant is asked again, together with
+// current_consent_version() in the database, which refuses trips saved under an older consent
+export const CONSENT_VERSION = 2;
+
+// "unknown" means the lookup failed (e.g. offline) and this device has no earlier answer to fall back on
+export type ConsentStatus = "current" | "outdated" | "withdrawn" | "none" | "unknown";
+
+export interface ConsentRecord {
+  id?: string;
+  user_id: string;
+  version: number;
+  consented_at: string;
+  withdrawn_at?: string | null;
+}
+
+type CachedConsent = Pick<ConsentRecord, "version" | "withdrawn_at"> | null;
+
+const cacheKey = (userId: string) => `travel-log-consent:${userId}`;
+
+// The last answer the server confirmed, kept per user so a failed lookup does not send a consenting participant
+// back to the consent form. The version is cached rather than the status, so a wording change still asks again.
+const readCachedConsent = (userId: string): CachedConsent | undefined => {
+  try {
+    const stored = localStorage.getItem(cacheKey(userId));
+    return stored === null ? undefined : JSON.parse(stored);
+  } catch (error) {
+    console.error('Consent cache read error:', error);
+    return undefined;
+  }
+};
+
+const cacheConsent = (userId: string, record: CachedConsent) => {
+  localStorage.setItem(cacheKey(userId), JSON.stringify(record && { version: record.version, withdrawn_at: record.withdrawn_at ?? null }));
+};
+
+const toConsentStatus = (record: CachedConsent): ConsentStatus => {
+  if (!record) return "none";
+  if (record.withdrawn_at) return "withdrawn";
+  return record.version === CONSENT_VERSION ? "current" : "outdated";
+};
+
+export const fetchConsentStatus = async (userId: string): Promise<ConsentStatus> => {
+  const { data, error } = await supabase
+    .from('consent_records')
+    .select('*')
+    .eq('user_id', userId)
+    .order('consented_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  // Only a lookup that succeeded and found nothing means the participant never consented
+  if (error) {
+    console.error('Consent lookup error:', error);
+    const cached = readCachedConsent(userId);
+    return cached === undefined ? "unknown" : toConsentStatus(cached);
+  }
+
+  const record = data as ConsentRecord | null;
+  cacheConsent(userId, record);
+  return toConsentStatus(record);
+};
+
+export const recordConsent = async (userId: string) => {
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('consent_records')
+    .insert([{ user_id: userId, version: CONSENT_VERSION, consented_at: now }]);
+
+  if (error) return { error };
+  cacheConsent(userId, { version: CONSENT_VERSION, withdrawn_at: null });
+
+  return supabase
+    .from('profiles')
+    .upsert({
+      id: userId,
+      consent: true,
+      consent_version: CONSENT_VERSION,
+      exclude_from_research: false,
+      updated_at: now
+    });
+};
+
+// Withdrawal keeps the participant's rows but flags them so research exports leave them out
+export const withdrawConsent = async (userId: string) => {
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('consent_records')
+    .update({ withdrawn_at: now })
+    .eq('user_id', userId)
+    .is('withdrawn_at', null);
+
+  if (error) return { error };
+  cacheConsent(userId, { version: CONSENT_VERSION, withdrawn_at: now });
+
+  return supabase
+    .from('profiles')
+    .upsert({
+      id: userId,
+      consent: false,
+      exclude_from_research: true,
+      updated_at: now
+    });
+};
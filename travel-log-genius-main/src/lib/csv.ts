@@ -0,0 +1,23 @@
+export type CsvValue = string | number | null | undefined;
+
+const escapeCell = (value: CsvValue) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Excel only detects UTF-8 (and so renders Malayalam place names) when the file starts with a BOM
+const UTF8_BOM = "\uFEFF";
+
+// RFC 4180: CRLF line endings, fields with commas, quotes or line breaks wrapped in quotes, quotes doubled
+export const toCsv = (rows: CsvValue[][], { bom = false } = {}) =>
+  (bom ? UTF8_BOM : "") + rows.map(row => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,164 @@
+import { addDays, format } from "date-fns";
+import { supabase } from "./supabase";
+import { Option } from "./household";
+import { TripRecord } from "./trips";
+import { STUDY_AREA_TIME_ZONE } from "./study-area-time";
+
+export type DiaryDayStatus = "assigned" | "completed" | "no_travel";
+
+export interface DiaryDay {
+  id?: string;
+  user_id: string;
+  // Study-area (Asia/Kolkata) calendar date, yyyy-MM-dd
+  diary_date: string;
+  status: DiaryDayStatus;
+  no_travel_reason?: string | null;
+  no_travel_reason_other?: string | null;
+  responded_at?: string | null;
+}
+
+// Consecutive survey days each participant is asked to keep a full diary for
+export const DIARY_LENGTH_DAYS = 2;
+
+export const noTravelReasons: Option[] = [
+  { value: "unwell", label: "Ill or unwell" },
+  { value: "worked_from_home", label: "Worked or studied from home" },
+  { value: "no_need", label: "No need to go anywhere" },
+  { value: "caring", label: "Looking after someone at home" },
+  { value: "holiday", label: "Holiday or day off at home" },
+  { value: "weather", label: "Bad weather" },
+  { value: "away", label: "Away from Kerala" },
+  { value: "other", label: "Other" },
+];
+
+export const diaryStatusLabels: Record<DiaryDayStatus, string> = {
+  assigned: "To do",
+  completed: "Completed",
+  no_travel: "No travel",
+};
+
+export const formatNoTravelReason = (reason?: string | null, other?: string | null) => {
+  if (!reason) return "";
+  if (reason === "other" && other) return `Other: ${other}`;
+  return noTravelReasons.find(r => r.value === reason)?.label ?? reason;
+};
+
+// Diary days are Kerala calendar days whatever time zone the device is set to; en-CA formats as yyyy-MM-dd
+const studyAreaDate = new Intl.DateTimeFormat("en-CA", {
+  timeZone: STUDY_AREA_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit"
+});
+
+// The Kerala day an instant falls on
+export const getDayKey = (date: Date) => studyAreaDate.format(date);
+
+// A day picked on a calendar is already a date, so its own fields are kept as they are
+export const getCalendarDayKey = (day: Date) => format(day, "yyyy-MM-dd");
+
+// Trips belong to the day they started; ones without a start time fall back to when they were recorded
+export const getTripDayKey = (trip: Pick<TripRecord, "start_time" | "created_at">) => {
+  const value = trip.start_time || trip.created_at;
+  return value ? getDayKey(new Date(value)) : null;
+};
+
+export const getTripsForDay = <T extends Pick<TripRecord, "start_time" | "created_at">>(trips: T[], dayKey: string) =>
+  trips.filter(trip => getTripDayKey(trip) === dayKey);
+
+export const isDayResponded = (day: DiaryDay) => day.status !== "assigned";
+
+// Only days that have started can be missed
+export const isDayDue = (day: DiaryDay, today = getDayKey(new Date())) => day.diary_date <= today;
+
+export const fetchDiaryDays = async (userId: string) =>
+  supabase
+    .from('diary_days')
+    .select('*')
+    .eq('user_id', userId)
+    .order('diary_date', { ascending: true });
+
+// Days that are already assigned are left alone, so running this twice cannot duplicate them
+export const assignDiaryDays = async (userId: string, start = new Date()) =>
+  supabase
+    .from('diary_days')
+    .upsert(
+      Array.from({ length: DIARY_LENGTH_DAYS }, (_, index) => ({
+        user_id: userId,
+        diary_date: getDayKey(addDays(start, index)),
+        status: "assigned"
+      })),
+      { onConflict: 'user_id,diary_date', ignoreDuplicates: true }
+    );
+
+const updateDiaryDay = async (day: DiaryDay, changes: Partial<DiaryDay>) =>
+  supabase
+    .from('diary_days')
+    .update(changes)
+    .eq('id', day.id);
+
+export const completeDiaryDay = async (day: DiaryDay) =>
+  updateDiaryDay(day, {
+    status: "completed",
+    no_travel_reason: null,
+    no_travel_reason_other: null,
+    responded_at: new Date().toISOString()
+  });
+
+export const declareNoTravel = async (day: DiaryDay, reason: string, reasonOther?: string) =>
+  updateDiaryDay(day, {
+    status: "no_travel",
+    no_travel_reason: reason,
+    no_travel_reason_other: reason === "other" ? reasonOther || null : null,
+    responded_at: new Date().toISOString()
+  });
+
+export const reopenDiaryDay = async (day: DiaryDay) =>
+  updateDiaryDay(day, {
+    status: "assigned",
+    no_travel_reason: null,
+    no_travel_reason_other: null,
+    responded_at: null
+  });
+
+export interface DiaryStats {
+  participants: number;
+  dueDays: number;
+  respondedDays: number;
+  noTravelDays: number;
+  // Responded person-days over person-days that have started
+  completionRate: number;
+  // Share of responded person-days on which the participant made no trips
+  immobilityRate: number;
+  // Trips per responded person-day, no-travel days counted as zero
+  tripRate: number;
+  // Trips per person-day on which the participant travelled
+  mobileTripRate: number;
+  reasons: { value: string; label: string; count: number }[];
+}
+
+// Person-day counts from research_diary_summary; diaryTrips counts trips on completed days only
+export interface DiaryCounts {
+  participants: number;
+  dueDays: number;
+  respondedDays: number;
+  noTravelDays: number;
+  completedDays: number;
+  diaryTrips: number;
+  reasons: { value: string; count: number }[];
+}
+
+export const toDiaryStats = (counts: DiaryCounts): DiaryStats => ({
+  participants: counts.participants,
+  dueDays: counts.dueDays,
+  respondedDays: counts.respondedDays,
+  noTravelDays: counts.noTravelDays,
+  completionRate: counts.dueDays ? (counts.respondedDays / counts.dueDays) * 100 : 0,
+  immobilityRate: counts.respondedDays ? (counts.noTravelDays / counts.respondedDays) * 100 : 0,
+  tripRate: counts.respondedDays ? counts.diaryTrips / counts.respondedDays : 0,
+  mobileTripRate: counts.completedDays ? counts.diaryTrips / counts.completedDays : 0,
+  reasons: noTravelReasons
+    .map(({ value, label }) => ({ value, label, count: counts.reasons.find(reason => reason.value === value)?.count ?? 0 }))
+    .filter(row => row.count > 0)
+    .sort((a, b) => b.count - a.count)
+});
@@ -0,0 +1,183 @@
+import { LatLon } from "./geo";
+import { getDistrictCentroid, getTripEndDistrict, locateTripEnd } from "./gazetteer";
+import { UNASSIGNED_ZONE, assignZone } from "./od-matrix";
+import { ResearchTrip } from "./research";
+
+export type LocationPrecision = "exact" | "zone" | "grid";
+
+export interface PrivacyProfile {
+  value: string;
+  label: string;
+  description: string;
+  pseudonymize: boolean;
+  location: LocationPrecision;
+  // Grid cell edge in degrees, as in the OD matrix grid scheme
+  gridCellSize: number;
+  // OD pairs travelled by fewer distinct participants than this are left out; 1 keeps everything
+  minOdParticipants: number;
+}
+
+export const privacyProfiles: PrivacyProfile[] = [
+  {
+    value: "district",
+    label: "Anonymized, district zones",
+    description: "Pseudonymous participants, trip ends moved to the centre of their district, rare OD pairs suppressed, free text removed",
+    pseudonymize: true,
+    location: "zone",
+    gridCellSize: 0.01,
+    minOdParticipants: 5
+  },
+  {
+    value: "grid",
+    label: "Anonymized, 1 km grid",
+    description: "Pseudonymous participants, trip ends moved to the centre of a 0.01° grid cell, rare OD pairs suppressed, free text removed",
+    pseudonymize: true,
+    location: "grid",
+    gridCellSize: 0.01,
+    minOdParticipants: 5
+  },
+  {
+    value: "pseudonymized",
+    label: "Pseudonymized, exact locations",
+    description: "Participant IDs replaced; places, coordinates and routes exported as recorded",
+    pseudonymize: true,
+    location: "exact",
+    gridCellSize: 0.01,
+    minOdParticipants: 1
+  },
+  {
+    value: "identified",
+    label: "Identified (internal use only)",
+    description: "Real participant IDs and exact locations, for linking back to the database",
+    pseudonymize: false,
+    location: "exact",
+    gridCellSize: 0.01,
+    minOdParticipants: 1
+  },
+];
+
+// What participants were promised at consent, so it is what an export starts from
+export const defaultPrivacyProfile = privacyProfiles[0];
+
+export const getPrivacyProfile = (value: string) =>
+  privacyProfiles.find(profile => profile.value === value) ?? defaultPrivacyProfile;
+
+export const locationPrecisionLabels: Record<LocationPrecision, string> = {
+  exact: "Exact",
+  zone: "District centroid",
+  grid: "Grid cell centre",
+};
+
+// Fields that can single someone out on their own once locations are coarsened
+const redactedWhenCoarsened = ["trip_number", "purpose_other", "companions", "route_polyline", "route_distance_km"] as const;
+
+interface CoarseEnd {
+  label: string;
+  point: LatLon | null;
+}
+
+const coarsenEnd = (trip: ResearchTrip, end: "origin" | "destination", profile: PrivacyProfile): CoarseEnd => {
+  if (profile.location === "grid") {
+    const point = locateTripEnd(trip, end);
+    const label = assignZone(trip[end], point, { type: "grid", cellSize: profile.gridCellSize });
+    const center = (v: number) =>
+      Number((Math.floor(v / profile.gridCellSize) * profile.gridCellSize + profile.gridCellSize / 2).toFixed(6));
+    return { label, point: point ? { lat: center(point.lat), lon: center(point.lon) } : null };
+  }
+
+  const district = getTripEndDistrict(trip, end);
+  return { label: district ?? UNASSIGNED_ZONE, point: district ? getDistrictCentroid(district) : null };
+};
+
+const randomIndex = (size: number) => crypto.getRandomValues(new Uint32Array(1))[0] % size;
+
+// Numbered in a random order, so pseudonyms carry no hint of the real IDs and differ between exports
+const buildPseudonyms = (userIds: string[]) => {
+  const shuffled = Array.from(new Set(userIds));
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomIndex(i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  const width = String(shuffled.length).length;
+  return new Map(shuffled.map((userId, i) => [userId, `P${String(i + 1).padStart(width, "0")}`]));
+};
+
+export interface PrivacyResult {
+  trips: ResearchTrip[];
+  suppressedTrips: number;
+  suppressedPairs: number;
+}
+
+export const applyPrivacyProfile = (trips: ResearchTrip[], profile: PrivacyProfile): PrivacyResult => {
+  const coarsen = profile.location !== "exact";
+
+  const coarsened = trips.map(trip => {
+    if (!coarsen) return trip;
+    const origin = coarsenEnd(trip, "origin", profile);
+    const destination = coarsenEnd(trip, "destination", profile);
+    return {
+      ...trip,
+      ...Object.fromEntries(redactedWhenCoarsened.map(field => [field, null])),
+      origin: origin.label,
+      destination: destination.label,
+      origin_place_id: null,
+      destination_place_id: null,
+      // Zones can be far smaller than the area the export is coarsened to
+      origin_zone_id: null,
+      destination_zone_id: null,
+      origin_lat: origin.point?.lat ?? null,
+      origin_lon: origin.point?.lon ?? null,
+      destination_lat: destination.point?.lat ?? null,
+      destination_lon: destination.point?.lon ?? null,
+      trip_legs: trip.trip_legs?.map(leg => ({ ...leg, origin: null, destination: null })),
+      household: trip.household && { ...trip.household, home_place_id: null }
+    } as ResearchTrip;
+  });
+
+  // k-anonymity over people rather than trips: one commuter's 40 identical trips are still one person
+  const pairKey = (trip: ResearchTrip) => `${trip.origin}\u0000${trip.destination}`;
+  const participantsByPair = coarsened.reduce((acc, trip) => {
+    const key = pairKey(trip);
+    if (!acc.has(key)) acc.set(key, new Set<string>());
+    acc.get(key).add(trip.user_id);
+    return acc;
+  }, new Map<string, Set<string>>());
+  const rarePairs = new Set(
+    Array.from(participantsByPair)
+      .filter(([, participants]) => participants.size < profile.minOdParticipants)
+      .map(([key]) => key)
+  );
+  const kept = coarsened.filter(trip => !rarePairs.has(pairKey(trip)));
+
+  const pseudonyms = profile.pseudonymize ? buildPseudonyms(kept.map(trip => trip.user_id)) : null;
+
+  return {
+    // Database trip IDs would link rows back to the stored trips, so they become a row number for this export
+    trips: pseudonyms
+      ? kept.map((trip, index) => ({ ...trip, id: index + 1, user_id: pseudonyms.get(trip.user_id) }))
+      : kept,
+    suppressedTrips: coarsened.length - kept.length,
+    suppressedPairs: rarePairs.size
+  };
+};
+
+// Appended to the data dictionary so the file explains what was done to each affected column
+export const getPrivacyNotes = (profile: PrivacyProfile): Record<string, string> => {
+  const notes: Record<string, string> = {};
+  if (profile.pseudonymize) {
+    notes.user_id = "Pseudonym assigned for this export only; the same participant gets a different pseudonym in another export";
+    notes.trip_id = "Row number within this export only, not the database trip ID";
+  }
+  if (profile.location !== "exact") {
+    const area = profile.location === "grid" ? `${profile.gridCellSize}° grid cell` : "district";
+    notes.origin = `Replaced by the ${area} of the origin`;
+    notes.destination = `Replaced by the ${area} of the destination`;
+    ["origin_lat", "origin_lon", "destination_lat", "destination_lon"].forEach(key => {
+      notes[key] = `Centre of the ${area}, not the recorded point`;
+    });
+    ["origin_place_id", "destination_place_id", "origin_zone_id", "destination_zone_id", "home_place_id", ...redactedWhenCoarsened].forEach(key => {
+      notes[key] = "Removed for privacy";
+    });
+  }
+  return notes;
+};
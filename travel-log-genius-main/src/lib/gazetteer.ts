@@ -0,0 +1,156 @@
+import { LatLon, TripEndpoints, distanceKm, getTripEndPoint } from "./geo";
+import { GazetteerPlace, PlaceKind, keralaGazetteer } from "./kerala-gazetteer";
+
+// Case, accents, punctuation and spacing never distinguish two places
+export const normalizePlaceName = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.,'()/-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Folds the common Latin spellings of one Malayalam name together: Thrissur/Trissur, Kozhikkode/Kozhikode, Guruvayoor/Guruvayur
+const phoneticKey = (value: string) =>
+  normalizePlaceName(value)
+    .replace(/ee/g, "i")
+    .replace(/oo/g, "u")
+    .replace(/w/g, "v")
+    .replace(/([bcdgjkpstz])h/g, "$1")
+    .replace(/(.)\1+/g, "$1");
+
+interface IndexedName {
+  place: GazetteerPlace;
+  name: string;
+  key: string;
+}
+
+const nameIndex: IndexedName[] = keralaGazetteer.flatMap(place =>
+  [place.name, ...place.aliases].map(name => ({
+    place,
+    name: normalizePlaceName(name),
+    key: phoneticKey(name)
+  }))
+);
+
+const placesById = new Map(keralaGazetteer.map(place => [place.id, place]));
+
+export const getPlaceById = (id?: string | null) => (id ? placesById.get(id) ?? null : null);
+
+// Lower is better; null means no match
+const matchScore = (entry: IndexedName, query: string, queryKey: string) => {
+  if (entry.name === query) return 0;
+  if (entry.key === queryKey) return 1;
+  if (entry.name.startsWith(query)) return 2;
+  if (entry.key.startsWith(queryKey)) return 3;
+  if (entry.name.split(" ").some(word => word.startsWith(query))) return 4;
+  if (entry.name.includes(query)) return 5;
+  return null;
+};
+
+export const searchPlaces = (query: string, limit = 8): GazetteerPlace[] => {
+  const normalized = normalizePlaceName(query);
+  if (!normalized) return [];
+  const queryKey = phoneticKey(query);
+
+  const best = new Map<string, number>();
+  nameIndex.forEach(entry => {
+    const score = matchScore(entry, normalized, queryKey);
+    if (score === null) return;
+    const current = best.get(entry.place.id);
+    if (current === undefined || score < current) best.set(entry.place.id, score);
+  });
+
+  return Array.from(best.entries())
+    .sort(([a, scoreA], [b, scoreB]) =>
+      scoreA - scoreB || placesById.get(a).name.length - placesById.get(b).name.length
+    )
+    .slice(0, limit)
+    .map(([id]) => placesById.get(id));
+};
+
+// Exact match on a name or alias, also trying the part before the first comma ("Kochi, Kerala")
+export const findPlace = (label?: string | null): GazetteerPlace | null => {
+  if (!label) return null;
+  const candidates = [label, label.split(",")[0]];
+  for (const candidate of candidates) {
+    const normalized = normalizePlaceName(candidate);
+    if (!normalized) continue;
+    const key = phoneticKey(candidate);
+    const match = nameIndex.find(entry => entry.name === normalized) ?? nameIndex.find(entry => entry.key === key);
+    if (match) return match.place;
+  }
+  return null;
+};
+
+// How far from its point a place can still be the answer; stops and landmarks are small, towns are not
+const reverseRadiusKm: Record<PlaceKind, number> = {
+  transit_stop: 0.3,
+  landmark: 0.5,
+  locality: 8
+};
+
+const reversePriority: Record<PlaceKind, number> = {
+  transit_stop: 0,
+  landmark: 1,
+  locality: 2
+};
+
+export const reverseGeocode = (point: LatLon): GazetteerPlace | null => {
+  const nearby = keralaGazetteer
+    .map(place => ({ place, distance: distanceKm(point, place) }))
+    .filter(({ place, distance }) => distance <= reverseRadiusKm[place.kind])
+    .sort((a, b) => reversePriority[a.place.kind] - reversePriority[b.place.kind] || a.distance - b.distance);
+  return nearby[0]?.place ?? null;
+};
+
+// A stored place ID wins; otherwise try the label, so older free-text trips still resolve where they can
+export const resolvePlace = (label?: string | null, placeId?: string | null) =>
+  getPlaceById(placeId) ?? findPlace(label);
+
+// Stable key for counting and grouping trip ends: the canonical place ID, or the normalised label when unmatched
+export const getPlaceKey = (label?: string | null, placeId?: string | null) =>
+  resolvePlace(label, placeId)?.id ?? normalizePlaceName(label ?? "");
+
+export interface PlacedTripEndpoints extends TripEndpoints {
+  origin_place_id?: string | null;
+  destination_place_id?: string | null;
+}
+
+// The pin when there is one, otherwise the position of the gazetteer place the label names
+export const locateTripEnd = (trip: PlacedTripEndpoints, end: "origin" | "destination"): LatLon | null => {
+  const point = getTripEndPoint(trip, end);
+  if (point) return point;
+  const place = resolvePlace(trip[end], trip[`${end}_place_id`]);
+  return place ? { lat: place.lat, lon: place.lon } : null;
+};
+
+const districtCentroids = new Map(
+  Array.from(new Set(keralaGazetteer.map(place => place.district))).map(district => {
+    const places = keralaGazetteer.filter(place => place.district === district);
+    return [
+      district,
+      {
+        lat: places.reduce((sum, place) => sum + place.lat, 0) / places.length,
+        lon: places.reduce((sum, place) => sum + place.lon, 0) / places.length
+      }
+    ];
+  })
+);
+
+export const getDistrictCentroid = (district: string): LatLon | null => districtCentroids.get(district) ?? null;
+
+export const getDistrictPlaceIds = (district: string) =>
+  keralaGazetteer.filter(place => place.district === district).map(place => place.id);
+
+// Pins too far from any gazetteer place for reverse geocoding still belong to the nearest district
+const nearestDistrict = (point: LatLon) =>
+  keralaGazetteer.reduce((best, place) => (distanceKm(point, place) < distanceKm(point, best) ? place : best)).district;
+
+export const getTripEndDistrict = (trip: PlacedTripEndpoints, end: "origin" | "destination") => {
+  const place = resolvePlace(trip[end], trip[`${end}_place_id`]);
+  if (place) return place.district;
+  const point = getTripEndPoint(trip, end);
+  return point ? reverseGeocode(point)?.district ?? nearestDistrict(point) : null;
+};
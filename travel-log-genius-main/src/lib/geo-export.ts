@@ -0,0 +1,153 @@
+import { LatLon } from "./geo";
+import { decodePolyline } from "./gps-trace";
+import { locateTripEnd } from "./gazetteer";
+import { UNASSIGNED_ZONE, assignTripZone } from "./od-matrix";
+import { ResearchTrip } from "./research";
+import { DateFormat, getTripAttributes } from "./trip-export";
+
+type Properties = Record<string, string | number | null>;
+
+interface LineFeature {
+  type: "Feature";
+  geometry: { type: "LineString"; coordinates: [number, number][] };
+  properties: Properties;
+}
+
+export interface FeatureCollection {
+  type: "FeatureCollection";
+  name: string;
+  features: LineFeature[];
+}
+
+// GeoJSON and KML both put longitude first; six decimals is about 10 cm
+const toCoordinate = ({ lat, lon }: LatLon): [number, number] => [Number(lon.toFixed(6)), Number(lat.toFixed(6))];
+
+// The recorded GPS trace when there is one, otherwise a straight line from origin to destination
+const getTripLine = (trip: ResearchTrip) => {
+  const trace = trip.route_polyline ? decodePolyline(trip.route_polyline) : [];
+  if (trace.length >= 2) return { points: trace, geometrySource: "gps_trace" };
+
+  const origin = locateTripEnd(trip, "origin");
+  const destination = locateTripEnd(trip, "destination");
+  return origin && destination ? { points: [origin, destination], geometrySource: "origin_destination" } : null;
+};
+
+const lineFeature = (points: LatLon[], properties: Properties): LineFeature => ({
+  type: "Feature",
+  geometry: { type: "LineString", coordinates: points.map(toCoordinate) },
+  properties
+});
+
+export const buildTripFeatures = (trips: ResearchTrip[], columnKeys: string[], dateFormat: DateFormat) => {
+  const features: LineFeature[] = [];
+  let unmapped = 0;
+
+  trips.forEach(trip => {
+    const line = getTripLine(trip);
+    if (!line) {
+      unmapped++;
+      return;
+    }
+    features.push(lineFeature(line.points, { ...getTripAttributes(trip, columnKeys, dateFormat), geometry_source: line.geometrySource }));
+  });
+
+  return { collection: { type: "FeatureCollection", name: "natpac_trips", features } as FeatureCollection, unmapped };
+};
+
+// One line per zone pair using the OD matrix's place zoning, drawn between the mean position of each zone's trip ends
+export const buildDesireLines = (trips: ResearchTrip[]): FeatureCollection => {
+  const scheme = { type: "label" as const };
+  const zonePoints: Record<string, LatLon[]> = {};
+  const pairs: Record<string, { origin: string; destination: string; trips: number; participants: Set<string> }> = {};
+
+  trips.forEach(trip => {
+    const origin = assignTripZone(trip, "origin", scheme);
+    const destination = assignTripZone(trip, "destination", scheme);
+    if (origin === UNASSIGNED_ZONE || destination === UNASSIGNED_ZONE) return;
+
+    ([[origin, "origin"], [destination, "destination"]] as const).forEach(([zone, end]) => {
+      const point = locateTripEnd(trip, end);
+      if (point) (zonePoints[zone] = zonePoints[zone] || []).push(point);
+    });
+
+    const key = `${origin}\u0000${destination}`;
+    pairs[key] = pairs[key] || { origin, destination, trips: 0, participants: new Set() };
+    pairs[key].trips++;
+    pairs[key].participants.add(trip.user_id);
+  });
+
+  const centroid = (zone: string) => {
+    const points = zonePoints[zone];
+    if (!points?.length) return null;
+    return {
+      lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+      lon: points.reduce((sum, p) => sum + p.lon, 0) / points.length
+    };
+  };
+
+  // Trips within one zone have no line to draw
+  const features = Object.values(pairs)
+    .filter(pair => pair.origin !== pair.destination)
+    .map(pair => ({ ...pair, from: centroid(pair.origin), to: centroid(pair.destination) }))
+    .filter(pair => pair.from && pair.to)
+    .sort((a, b) => b.trips - a.trips)
+    .map(pair =>
+      lineFeature([pair.from, pair.to], {
+        origin: pair.origin,
+        destination: pair.destination,
+        trips: pair.trips,
+        participants: pair.participants.size
+      })
+    );
+
+  return { type: "FeatureCollection", name: "natpac_desire_lines", features };
+};
+
+export const toGeoJson = (collection: FeatureCollection) => JSON.stringify(collection);
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const kmlPlacemark = (feature: LineFeature, name: string, styleUrl: string, width?: number) => {
+  const data = Object.entries(feature.properties)
+    .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(value === null ? "" : String(value))}</value></Data>`)
+    .join("");
+  const style = width ? `<Style><LineStyle><color>ff3c14dc</color><width>${width}</width></LineStyle></Style>` : "";
+  const coordinates = feature.geometry.coordinates.map(([lon, lat]) => `${lon},${lat}`).join(" ");
+  return (
+    `<Placemark><name>${escapeXml(name)}</name><styleUrl>${styleUrl}</styleUrl>${style}` +
+    `<ExtendedData>${data}</ExtendedData><LineString><tessellate>1</tessellate><coordinates>${coordinates}</coordinates></LineString></Placemark>`
+  );
+};
+
+// Widest desire line is 10 px so busy corridors stand out without drowning the map
+const MAX_LINE_WIDTH = 10;
+
+export const toKml = (trips: FeatureCollection, desireLines: FeatureCollection) => {
+  const maxTrips = Math.max(1, ...desireLines.features.map(feature => Number(feature.properties.trips)));
+  const tripPlacemarks = trips.features
+    .map(feature => kmlPlacemark(feature, `Trip ${feature.properties.trip_id ?? ""}`.trim(), "#trip"))
+    .join("\n");
+  const desirePlacemarks = desireLines.features
+    .map(feature =>
+      kmlPlacemark(
+        feature,
+        `${feature.properties.origin} → ${feature.properties.destination} (${feature.properties.trips})`,
+        "#desire",
+        Math.max(1, Math.round((Number(feature.properties.trips) / maxTrips) * MAX_LINE_WIDTH))
+      )
+    )
+    .join("\n");
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>',
+    "<name>NATPAC trip data</name>",
+    '<Style id="trip"><LineStyle><color>ffd77800</color><width>2</width></LineStyle></Style>',
+    '<Style id="desire"><LineStyle><color>ff3c14dc</color><width>2</width></LineStyle></Style>',
+    `<Folder><name>Trips</name>\n${tripPlacemarks}\n</Folder>`,
+    `<Folder><name>Desire lines</name>\n${desirePlacemarks}\n</Folder>`,
+    "</Document></kml>",
+    ""
+  ].join("\n");
+};
@@ -0,0 +1,56 @@
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+// Rough centre of Kerala, used when no better starting point is known
+export const STUDY_AREA_CENTER: LatLon = { lat: 10.35, lon: 76.45 };
+
+// Bounding box of Kerala with a small margin for border towns
+export const STUDY_AREA_BOUNDS = { south: 8.1, west: 74.8, north: 12.85, east: 77.45 };
+
+export const isInStudyArea = ({ lat, lon }: LatLon) =>
+  lat >= STUDY_AREA_BOUNDS.south &&
+  lat <= STUDY_AREA_BOUNDS.north &&
+  lon >= STUDY_AREA_BOUNDS.west &&
+  lon <= STUDY_AREA_BOUNDS.east;
+
+export const formatLatLon = ({ lat, lon }: LatLon) => `${lat.toFixed(5)}, ${lon.toFixed(5)}`;
+
+// Matches the "lat, lon" strings older trips carry in origin/destination
+export const parseLatLon = (value: string) => {
+  const match = value.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lon = Number(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon };
+};
+
+export interface TripEndpoints {
+  origin: string;
+  destination: string;
+  origin_lat?: number | null;
+  origin_lon?: number | null;
+  destination_lat?: number | null;
+  destination_lon?: number | null;
+}
+
+// Prefers the structured coordinates and falls back to a coordinate-looking label for older rows
+export const getTripEndPoint = (trip: TripEndpoints, end: "origin" | "destination"): LatLon | null => {
+  const lat = trip[`${end}_lat`];
+  const lon = trip[`${end}_lon`];
+  if (lat != null && lon != null) return { lat, lon };
+  return trip[end] ? parseLatLon(trip[end]) : null;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance (haversine)
+export const distanceKm = (a: LatLon, b: LatLon) => {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLon = rad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
@@ -0,0 +1,85 @@
+import { LatLon, distanceKm } from "./geo";
+
+export interface TracePoint extends LatLon {
+  accuracy: number;
+  timestamp: number;
+}
+
+export interface ActiveTrace {
+  started_at: string;
+  interval_seconds: number;
+  points: TracePoint[];
+  paused?: boolean;
+}
+
+// "trip" follows one journey from Start to End; "day" runs in the background and is split into trips afterwards
+export type TraceKind = "trip" | "day";
+
+export const samplingIntervals = [
+  { value: 5, label: "Every 5 seconds" },
+  { value: 15, label: "Every 15 seconds" },
+  { value: 30, label: "Every 30 seconds" },
+  { value: 60, label: "Every minute" },
+];
+
+export const DEFAULT_SAMPLING_INTERVAL = 15;
+
+// Fixes worse than this are mostly cell-tower guesses and would zig-zag the route
+export const MAX_ACCURACY_METERS = 100;
+
+export const shouldRecordPoint = (last: TracePoint | undefined, next: TracePoint, intervalSeconds: number) =>
+  next.accuracy <= MAX_ACCURACY_METERS && (!last || next.timestamp - last.timestamp >= intervalSeconds * 1000);
+
+export const getTraceDistanceKm = (points: LatLon[]) =>
+  points.reduce((total, point, index) => (index === 0 ? 0 : total + distanceKm(points[index - 1], point)), 0);
+
+// Encoded polyline algorithm format (precision 5), the form most GIS and routing tools read directly
+export const encodePolyline = (points: LatLon[]) => {
+  let lastLat = 0;
+  let lastLon = 0;
+  const encodeValue = (value: number) => {
+    let rest = value < 0 ? ~(value << 1) : value << 1;
+    let chunk = "";
+    while (rest >= 0x20) {
+      chunk += String.fromCharCode((0x20 | (rest & 0x1f)) + 63);
+      rest >>= 5;
+    }
+    return chunk + String.fromCharCode(rest + 63);
+  };
+
+  return points
+    .map(point => {
+      const lat = Math.round(point.lat * 1e5);
+      const lon = Math.round(point.lon * 1e5);
+      const chunk = encodeValue(lat - lastLat) + encodeValue(lon - lastLon);
+      lastLat = lat;
+      lastLon = lon;
+      return chunk;
+    })
+    .join("");
+};
+
+export const decodePolyline = (encoded: string): LatLon[] => {
+  const points: LatLon[] = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+  const decodeValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += decodeValue();
+    lon += decodeValue();
+    points.push({ lat: lat / 1e5, lon: lon / 1e5 });
+  }
+  return points;
+};
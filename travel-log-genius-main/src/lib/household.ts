@@ -0,0 +1,132 @@
+import { supabase } from "./supabase";
+
+export interface Option {
+  value: string;
+  label: string;
+}
+
+export const ageBands: Option[] = [
+  { value: "under_15", label: "Under 15" },
+  { value: "15_24", label: "15–24" },
+  { value: "25_34", label: "25–34" },
+  { value: "35_44", label: "35–44" },
+  { value: "45_59", label: "45–59" },
+  { value: "60_74", label: "60–74" },
+  { value: "75_plus", label: "75 and over" },
+];
+
+export const genders: Option[] = [
+  { value: "female", label: "Female" },
+  { value: "male", label: "Male" },
+  { value: "other", label: "Other" },
+  { value: "prefer_not_to_say", label: "Prefer not to say" },
+];
+
+export const occupations: Option[] = [
+  { value: "employed_full_time", label: "Employed full-time" },
+  { value: "employed_part_time", label: "Employed part-time" },
+  { value: "self_employed", label: "Self-employed" },
+  { value: "student", label: "Student" },
+  { value: "homemaker", label: "Homemaker" },
+  { value: "unemployed", label: "Unemployed" },
+  { value: "retired", label: "Retired" },
+  { value: "other", label: "Other" },
+];
+
+// Monthly household income in rupees
+export const incomeBands: Option[] = [
+  { value: "below_10k", label: "Below ₹10,000" },
+  { value: "10k_25k", label: "₹10,000–25,000" },
+  { value: "25k_50k", label: "₹25,000–50,000" },
+  { value: "50k_100k", label: "₹50,000–1,00,000" },
+  { value: "above_100k", label: "Above ₹1,00,000" },
+  { value: "prefer_not_to_say", label: "Prefer not to say" },
+];
+
+export const vehicleTypes: Option[] = [
+  { value: "bicycle", label: "Bicycles" },
+  { value: "motorcycle", label: "Motorcycles / scooters" },
+  { value: "car", label: "Cars" },
+  { value: "auto_rickshaw", label: "Auto rickshaws" },
+  { value: "other", label: "Other vehicles" },
+];
+
+export const keralaDistricts = [
+  "Thiruvananthapuram", "Kollam", "Pathanamthitta", "Alappuzha", "Kottayam", "Idukki", "Ernakulam",
+  "Thrissur", "Palakkad", "Malappuram", "Kozhikode", "Wayanad", "Kannur", "Kasaragod"
+];
+
+export interface HouseholdMember {
+  age_band: string;
+  gender: string;
+  occupation: string;
+  has_licence: boolean;
+}
+
+export interface HouseholdProfile {
+  household_size: number;
+  // The first member is always the participant
+  household_members: HouseholdMember[];
+  vehicles: Record<string, number>;
+  income_band: string;
+  home_zone: string;
+  home_place_id: string | null;
+}
+
+export const householdColumns = 'household_size, household_members, vehicles, income_band, home_zone, home_place_id';
+
+export const emptyMember = (): HouseholdMember => ({
+  age_band: "",
+  gender: "",
+  occupation: "",
+  has_licence: false
+});
+
+export const emptyHouseholdProfile = (): HouseholdProfile => ({
+  household_size: 1,
+  household_members: [emptyMember()],
+  vehicles: {},
+  income_band: "",
+  home_zone: "",
+  home_place_id: null
+});
+
+export const getOptionLabel = (options: Option[], value?: string | null) =>
+  options.find(option => option.value === value)?.label ?? value ?? "";
+
+export const isHouseholdComplete = (profile?: Partial<HouseholdProfile> | null) =>
+  !!profile &&
+  (profile.household_size ?? 0) >= 1 &&
+  profile.household_members?.length === profile.household_size &&
+  profile.household_members.every(member => member.age_band && member.gender && member.occupation) &&
+  !!profile.income_band &&
+  !!profile.home_zone;
+
+// Matched by research_household_matches; "none" means no car, motorcycle or auto rickshaw
+export const vehicleOwnershipOptions: Option[] = [
+  { value: "car", label: "Owns a car" },
+  { value: "motorcycle", label: "Owns a motorcycle / scooter" },
+  { value: "none", label: "No motor vehicle" },
+];
+
+export const getVehicleTotal = (vehicles?: Record<string, number> | null) =>
+  Object.values(vehicles ?? {}).reduce((total, count) => total + (count || 0), 0);
+
+export const getLicenceHolders = (members?: HouseholdMember[] | null) =>
+  (members ?? []).filter(member => member.has_licence).length;
+
+export const fetchHouseholdProfile = async (userId: string) =>
+  supabase
+    .from('profiles')
+    .select(householdColumns)
+    .eq('id', userId)
+    .maybeSingle();
+
+export const saveHouseholdProfile = async (userId: string, profile: HouseholdProfile) =>
+  supabase
+    .from('profiles')
+    .upsert({
+      id: userId,
+      ...profile,
+      updated_at: new Date().toISOString()
+    });
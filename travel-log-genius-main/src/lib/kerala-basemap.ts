@@ -0,0 +1,35 @@
+// Simplified Kerala outline and district headquarters, bundled so the map still has context with no tile server.
+// Coordinates are [lon, lat] in GeoJSON order.
+
+export const keralaOutline: GeoJSON.Feature<GeoJSON.Polygon> = {
+  type: "Feature",
+  properties: { name: "Kerala" },
+  geometry: {
+    type: "Polygon",
+    coordinates: [[
+      [74.86, 12.78], [75.0, 12.45], [75.2, 12.0], [75.4, 11.75], [75.6, 11.45], [75.78, 11.2],
+      [75.85, 10.95], [75.95, 10.7], [76.05, 10.4], [76.2, 10.1], [76.25, 9.95], [76.3, 9.6],
+      [76.35, 9.3], [76.45, 9.05], [76.55, 8.85], [76.75, 8.65], [76.9, 8.45], [77.08, 8.29],
+      [77.18, 8.4], [77.25, 8.65], [77.15, 8.95], [77.2, 9.2], [77.35, 9.5], [77.2, 9.75],
+      [77.25, 10.05], [77.0, 10.35], [76.85, 10.6], [76.75, 10.85], [76.5, 11.25], [76.45, 11.65],
+      [76.1, 11.85], [75.9, 12.1], [75.5, 12.45], [75.2, 12.7], [75.0, 12.85], [74.86, 12.78]
+    ]]
+  }
+};
+
+export const keralaPlaces = [
+  { name: "Thiruvananthapuram", lat: 8.5241, lon: 76.9366 },
+  { name: "Kollam", lat: 8.8932, lon: 76.6141 },
+  { name: "Pathanamthitta", lat: 9.2648, lon: 76.787 },
+  { name: "Alappuzha", lat: 9.4981, lon: 76.3388 },
+  { name: "Kottayam", lat: 9.5916, lon: 76.5222 },
+  { name: "Idukki", lat: 9.8494, lon: 76.9719 },
+  { name: "Kochi", lat: 9.9312, lon: 76.2673 },
+  { name: "Thrissur", lat: 10.5276, lon: 76.2144 },
+  { name: "Palakkad", lat: 10.7867, lon: 76.6548 },
+  { name: "Malappuram", lat: 11.051, lon: 76.0711 },
+  { name: "Kozhikode", lat: 11.2588, lon: 75.7804 },
+  { name: "Kalpetta", lat: 11.6085, lon: 76.083 },
+  { name: "Kannur", lat: 11.8745, lon: 75.3704 },
+  { name: "Kasaragod", lat: 12.4996, lon: 74.9869 },
+];
@@ -0,0 +1,120 @@
+// Bundled Kerala gazetteer so trip ends can be matched and reverse geocoded with no network.
+// IDs are permanent: rename a place by changing its name and keep the old spelling as an alias.
+
+export type PlaceKind = "locality" | "landmark" | "transit_stop";
+
+export interface GazetteerPlace {
+  id: string;
+  name: string;
+  kind: PlaceKind;
+  district: string;
+  lat: number;
+  lon: number;
+  aliases: string[];
+}
+
+export const placeKindLabels: Record<PlaceKind, string> = {
+  locality: "Locality",
+  landmark: "Landmark",
+  transit_stop: "Transit stop"
+};
+
+export const keralaGazetteer: GazetteerPlace[] = [
+  // District headquarters
+  { id: "thiruvananthapuram", name: "Thiruvananthapuram", kind: "locality", district: "Thiruvananthapuram", lat: 8.5241, lon: 76.9366, aliases: ["Trivandrum", "TVM", "Tiruvanantapuram", "Thiruvanathapuram", "തിരുവനന്തപുരം"] },
+  { id: "kollam", name: "Kollam", kind: "locality", district: "Kollam", lat: 8.8932, lon: 76.6141, aliases: ["Quilon", "കൊല്ലം"] },
+  { id: "pathanamthitta", name: "Pathanamthitta", kind: "locality", district: "Pathanamthitta", lat: 9.2648, lon: 76.787, aliases: ["Pathanamthitta Town", "Patanamtitta", "പത്തനംതിട്ട"] },
+  { id: "alappuzha", name: "Alappuzha", kind: "locality", district: "Alappuzha", lat: 9.4981, lon: 76.3388, aliases: ["Alleppey", "Alapuzha", "ആലപ്പുഴ"] },
+  { id: "kottayam", name: "Kottayam", kind: "locality", district: "Kottayam", lat: 9.5916, lon: 76.5222, aliases: ["Kotayam", "കോട്ടയം"] },
+  { id: "painavu", name: "Painavu", kind: "locality", district: "Idukki", lat: 9.8494, lon: 76.9719, aliases: ["Idukki", "ഇടുക്കി", "പൈനാവ്"] },
+  { id: "kochi", name: "Kochi", kind: "locality", district: "Ernakulam", lat: 9.9312, lon: 76.2673, aliases: ["Cochin", "Kochi City", "കൊച്ചി"] },
+  { id: "thrissur", name: "Thrissur", kind: "locality", district: "Thrissur", lat: 10.5276, lon: 76.2144, aliases: ["Trichur", "Trissur", "തൃശ്ശൂർ", "തൃശൂർ"] },
+  { id: "palakkad", name: "Palakkad", kind: "locality", district: "Palakkad", lat: 10.7867, lon: 76.6548, aliases: ["Palghat", "Palakad", "പാലക്കാട്"] },
+  { id: "malappuram", name: "Malappuram", kind: "locality", district: "Malappuram", lat: 11.051, lon: 76.0711, aliases: ["Malapuram", "മലപ്പുറം"] },
+  { id: "kozhikode", name: "Kozhikode", kind: "locality", district: "Kozhikode", lat: 11.2588, lon: 75.7804, aliases: ["Calicut", "Kozhikkode", "Kozikode", "കോഴിക്കോട്"] },
+  { id: "kalpetta", name: "Kalpetta", kind: "locality", district: "Wayanad", lat: 11.6085, lon: 76.083, aliases: ["Kalpatta", "Wayanad", "കൽപ്പറ്റ"] },
+  { id: "kannur", name: "Kannur", kind: "locality", district: "Kannur", lat: 11.8745, lon: 75.3704, aliases: ["Cannanore", "കണ്ണൂർ"] },
+  { id: "kasaragod", name: "Kasaragod", kind: "locality", district: "Kasaragod", lat: 12.4996, lon: 74.9869, aliases: ["Kasargod", "Kasaragode", "കാസർകോട്"] },
+
+  // Other towns and neighbourhoods
+  { id: "ernakulam", name: "Ernakulam", kind: "locality", district: "Ernakulam", lat: 9.9816, lon: 76.2999, aliases: ["EKM", "എറണാകുളം"] },
+  { id: "fort-kochi", name: "Fort Kochi", kind: "locality", district: "Ernakulam", lat: 9.9658, lon: 76.2421, aliases: ["Fort Cochin", "ഫോർട്ട് കൊച്ചി"] },
+  { id: "mattancherry", name: "Mattancherry", kind: "locality", district: "Ernakulam", lat: 9.9576, lon: 76.2598, aliases: ["Mattanchery", "മട്ടാഞ്ചേരി"] },
+  { id: "edappally", name: "Edappally", kind: "locality", district: "Ernakulam", lat: 10.0261, lon: 76.3083, aliases: ["Edapally", "Idappally", "ഇടപ്പള്ളി"] },
+  { id: "kakkanad", name: "Kakkanad", kind: "locality", district: "Ernakulam", lat: 10.0159, lon: 76.3419, aliases: ["Kakanad", "കാക്കനാട്"] },
+  { id: "vyttila", name: "Vyttila", kind: "locality", district: "Ernakulam", lat: 9.9674, lon: 76.3183, aliases: ["Vytila", "Vyttilla", "വൈറ്റില"] },
+  { id: "tripunithura", name: "Tripunithura", kind: "locality", district: "Ernakulam", lat: 9.9439, lon: 76.3494, aliases: ["Thrippunithura", "Thripunithura", "തൃപ്പൂണിത്തുറ"] },
+  { id: "aluva", name: "Aluva", kind: "locality", district: "Ernakulam", lat: 10.1004, lon: 76.3570, aliases: ["Alwaye", "ആലുവ"] },
+  { id: "angamaly", name: "Angamaly", kind: "locality", district: "Ernakulam", lat: 10.1964, lon: 76.3860, aliases: ["Angamali", "അങ്കമാലി"] },
+  { id: "perumbavoor", name: "Perumbavoor", kind: "locality", district: "Ernakulam", lat: 10.1155, lon: 76.4770, aliases: ["Perumbavur", "പെരുമ്പാവൂർ"] },
+  { id: "muvattupuzha", name: "Muvattupuzha", kind: "locality", district: "Ernakulam", lat: 9.9894, lon: 76.5790, aliases: ["Moovattupuzha", "മൂവാറ്റുപുഴ"] },
+  { id: "thodupuzha", name: "Thodupuzha", kind: "locality", district: "Idukki", lat: 9.8959, lon: 76.7184, aliases: ["Todupuzha", "തൊടുപുഴ"] },
+  { id: "munnar", name: "Munnar", kind: "locality", district: "Idukki", lat: 10.0889, lon: 77.0595, aliases: ["മൂന്നാർ"] },
+  { id: "changanassery", name: "Changanassery", kind: "locality", district: "Kottayam", lat: 9.4467, lon: 76.5413, aliases: ["Changanacherry", "ചങ്ങനാശ്ശേരി"] },
+  { id: "pala", name: "Pala", kind: "locality", district: "Kottayam", lat: 9.7086, lon: 76.6841, aliases: ["Palai", "പാലാ"] },
+  { id: "thiruvalla", name: "Thiruvalla", kind: "locality", district: "Pathanamthitta", lat: 9.3835, lon: 76.5741, aliases: ["Tiruvalla", "തിരുവല്ല"] },
+  { id: "chengannur", name: "Chengannur", kind: "locality", district: "Alappuzha", lat: 9.3183, lon: 76.6112, aliases: ["Chenganur", "ചെങ്ങന്നൂർ"] },
+  { id: "kayamkulam", name: "Kayamkulam", kind: "locality", district: "Alappuzha", lat: 9.1748, lon: 76.5013, aliases: ["കായംകുളം"] },
+  { id: "cherthala", name: "Cherthala", kind: "locality", district: "Alappuzha", lat: 9.6847, lon: 76.3363, aliases: ["Shertallai", "ചേർത്തല"] },
+  { id: "karunagappally", name: "Karunagappally", kind: "locality", district: "Kollam", lat: 9.0588, lon: 76.5353, aliases: ["Karunagapally", "കരുനാഗപ്പള്ളി"] },
+  { id: "attingal", name: "Attingal", kind: "locality", district: "Thiruvananthapuram", lat: 8.6966, lon: 76.8150, aliases: ["ആറ്റിങ്ങൽ"] },
+  { id: "varkala", name: "Varkala", kind: "locality", district: "Thiruvananthapuram", lat: 8.7379, lon: 76.7163, aliases: ["വർക്കല"] },
+  { id: "neyyattinkara", name: "Neyyattinkara", kind: "locality", district: "Thiruvananthapuram", lat: 8.4000, lon: 77.0855, aliases: ["Neyattinkara", "നെയ്യാറ്റിൻകര"] },
+  { id: "kazhakkoottam", name: "Kazhakkoottam", kind: "locality", district: "Thiruvananthapuram", lat: 8.5686, lon: 76.8731, aliases: ["Kazhakuttam", "Kazhakootam", "കഴക്കൂട്ടം"] },
+  { id: "chalakudy", name: "Chalakudy", kind: "locality", district: "Thrissur", lat: 10.3070, lon: 76.3341, aliases: ["Chalakudi", "ചാലക്കുടി"] },
+  { id: "irinjalakuda", name: "Irinjalakuda", kind: "locality", district: "Thrissur", lat: 10.3420, lon: 76.2110, aliases: ["Irinjalakkuda", "ഇരിങ്ങാലക്കുട"] },
+  { id: "kodungallur", name: "Kodungallur", kind: "locality", district: "Thrissur", lat: 10.2270, lon: 76.1960, aliases: ["Cranganore", "Kodungalloor", "കൊടുങ്ങല്ലൂർ"] },
+  { id: "guruvayur", name: "Guruvayur", kind: "locality", district: "Thrissur", lat: 10.5946, lon: 76.0411, aliases: ["Guruvayoor", "ഗുരുവായൂർ"] },
+  { id: "shoranur", name: "Shoranur", kind: "locality", district: "Palakkad", lat: 10.7607, lon: 76.2712, aliases: ["Shornur", "ഷൊർണൂർ"] },
+  { id: "ottapalam", name: "Ottapalam", kind: "locality", district: "Palakkad", lat: 10.7735, lon: 76.3775, aliases: ["Ottappalam", "ഒറ്റപ്പാലം"] },
+  { id: "tirur", name: "Tirur", kind: "locality", district: "Malappuram", lat: 10.9146, lon: 75.9210, aliases: ["Thirur", "തിരൂർ"] },
+  { id: "manjeri", name: "Manjeri", kind: "locality", district: "Malappuram", lat: 11.1202, lon: 76.1199, aliases: ["മഞ്ചേരി"] },
+  { id: "perinthalmanna", name: "Perinthalmanna", kind: "locality", district: "Malappuram", lat: 10.9760, lon: 76.2254, aliases: ["Perintalmanna", "പെരിന്തൽമണ്ണ"] },
+  { id: "koyilandy", name: "Koyilandy", kind: "locality", district: "Kozhikode", lat: 11.4390, lon: 75.6950, aliases: ["Quilandy", "Koyilandi", "കൊയിലാണ്ടി"] },
+  { id: "vadakara", name: "Vadakara", kind: "locality", district: "Kozhikode", lat: 11.6085, lon: 75.5917, aliases: ["Badagara", "വടകര"] },
+  { id: "sulthan-bathery", name: "Sulthan Bathery", kind: "locality", district: "Wayanad", lat: 11.6664, lon: 76.2630, aliases: ["Sultan Battery", "Bathery", "സുൽത്താൻ ബത്തേരി"] },
+  { id: "mananthavady", name: "Mananthavady", kind: "locality", district: "Wayanad", lat: 11.8014, lon: 76.0044, aliases: ["Manantoddy", "മാനന്തവാടി"] },
+  { id: "thalassery", name: "Thalassery", kind: "locality", district: "Kannur", lat: 11.7491, lon: 75.4890, aliases: ["Tellicherry", "തലശ്ശേരി"] },
+  { id: "payyanur", name: "Payyanur", kind: "locality", district: "Kannur", lat: 12.0990, lon: 75.2010, aliases: ["Payyannur", "പയ്യന്നൂർ"] },
+  { id: "kanhangad", name: "Kanhangad", kind: "locality", district: "Kasaragod", lat: 12.3090, lon: 75.0990, aliases: ["Kanjangad", "കാഞ്ഞങ്ങാട്"] },
+
+  // Landmarks
+  { id: "cochin-airport", name: "Cochin International Airport", kind: "landmark", district: "Ernakulam", lat: 10.1520, lon: 76.4019, aliases: ["CIAL", "Kochi Airport", "Nedumbassery Airport", "COK"] },
+  { id: "trivandrum-airport", name: "Thiruvananthapuram International Airport", kind: "landmark", district: "Thiruvananthapuram", lat: 8.4821, lon: 76.9200, aliases: ["Trivandrum Airport", "TRV"] },
+  { id: "calicut-airport", name: "Calicut International Airport", kind: "landmark", district: "Malappuram", lat: 11.1368, lon: 75.9553, aliases: ["Karipur Airport", "Kozhikode Airport", "CCJ"] },
+  { id: "kannur-airport", name: "Kannur International Airport", kind: "landmark", district: "Kannur", lat: 11.9186, lon: 75.5472, aliases: ["Mattanur Airport", "CNN"] },
+  { id: "technopark", name: "Technopark", kind: "landmark", district: "Thiruvananthapuram", lat: 8.5581, lon: 76.8816, aliases: ["Techno Park", "ടെക്നോപാർക്ക്"] },
+  { id: "infopark-kochi", name: "Infopark Kochi", kind: "landmark", district: "Ernakulam", lat: 10.0095, lon: 76.3638, aliases: ["Infopark", "Info Park"] },
+  { id: "lulu-mall-kochi", name: "Lulu Mall Kochi", kind: "landmark", district: "Ernakulam", lat: 10.0271, lon: 76.3080, aliases: ["Lulu Mall", "Lulu Edappally"] },
+  { id: "cusat", name: "Cochin University of Science and Technology", kind: "landmark", district: "Ernakulam", lat: 10.0439, lon: 76.3245, aliases: ["CUSAT", "Cochin University", "Kalamassery University"] },
+  { id: "tvm-medical-college", name: "Government Medical College Thiruvananthapuram", kind: "landmark", district: "Thiruvananthapuram", lat: 8.5230, lon: 76.9270, aliases: ["Trivandrum Medical College", "TVM Medical College"] },
+  { id: "kozhikode-medical-college", name: "Government Medical College Kozhikode", kind: "landmark", district: "Kozhikode", lat: 11.2735, lon: 75.8360, aliases: ["Calicut Medical College", "Kozhikode Medical College"] },
+  { id: "vadakkunnathan-temple", name: "Vadakkunnathan Temple", kind: "landmark", district: "Thrissur", lat: 10.5244, lon: 76.2143, aliases: ["Thekkinkadu Maidanam", "Thrissur Round", "Swaraj Round"] },
+  { id: "kozhikode-beach", name: "Kozhikode Beach", kind: "landmark", district: "Kozhikode", lat: 11.2630, lon: 75.7670, aliases: ["Calicut Beach"] },
+  { id: "marine-drive-kochi", name: "Marine Drive Kochi", kind: "landmark", district: "Ernakulam", lat: 9.9773, lon: 76.2760, aliases: ["Marine Drive", "Ernakulam Marine Drive"] },
+
+  // Transit stops
+  { id: "ernakulam-junction-rs", name: "Ernakulam Junction Railway Station", kind: "transit_stop", district: "Ernakulam", lat: 9.9689, lon: 76.2905, aliases: ["Ernakulam South", "ERS", "Ernakulam Jn"] },
+  { id: "ernakulam-town-rs", name: "Ernakulam Town Railway Station", kind: "transit_stop", district: "Ernakulam", lat: 9.9916, lon: 76.2880, aliases: ["Ernakulam North", "ERN"] },
+  { id: "aluva-rs", name: "Aluva Railway Station", kind: "transit_stop", district: "Ernakulam", lat: 10.1088, lon: 76.3530, aliases: ["Alwaye Railway Station", "AWY"] },
+  { id: "tvm-central-rs", name: "Thiruvananthapuram Central Railway Station", kind: "transit_stop", district: "Thiruvananthapuram", lat: 8.4875, lon: 76.9525, aliases: ["Trivandrum Central", "Thampanoor Railway Station", "TVC"] },
+  { id: "kollam-junction-rs", name: "Kollam Junction Railway Station", kind: "transit_stop", district: "Kollam", lat: 8.8862, lon: 76.5953, aliases: ["Quilon Junction", "QLN"] },
+  { id: "kottayam-rs", name: "Kottayam Railway Station", kind: "transit_stop", district: "Kottayam", lat: 9.5943, lon: 76.5342, aliases: ["KTYM"] },
+  { id: "thrissur-rs", name: "Thrissur Railway Station", kind: "transit_stop", district: "Thrissur", lat: 10.5153, lon: 76.2099, aliases: ["Trichur Railway Station", "TCR"] },
+  { id: "shoranur-junction-rs", name: "Shoranur Junction Railway Station", kind: "transit_stop", district: "Palakkad", lat: 10.7621, lon: 76.2728, aliases: ["Shornur Junction", "SRR"] },
+  { id: "palakkad-junction-rs", name: "Palakkad Junction Railway Station", kind: "transit_stop", district: "Palakkad", lat: 10.8030, lon: 76.6420, aliases: ["Olavakkode", "Palghat Junction", "PGT"] },
+  { id: "kozhikode-rs", name: "Kozhikode Railway Station", kind: "transit_stop", district: "Kozhikode", lat: 11.2468, lon: 75.7809, aliases: ["Calicut Railway Station", "CLT"] },
+  { id: "kannur-rs", name: "Kannur Railway Station", kind: "transit_stop", district: "Kannur", lat: 11.8689, lon: 75.3712, aliases: ["Cannanore Railway Station", "CAN"] },
+  { id: "aluva-metro", name: "Aluva Metro Station", kind: "transit_stop", district: "Ernakulam", lat: 10.1097, lon: 76.3496, aliases: ["Aluva Metro"] },
+  { id: "edappally-metro", name: "Edappally Metro Station", kind: "transit_stop", district: "Ernakulam", lat: 10.0250, lon: 76.3085, aliases: ["Edappally Metro"] },
+  { id: "mg-road-metro", name: "MG Road Metro Station", kind: "transit_stop", district: "Ernakulam", lat: 9.9833, lon: 76.2823, aliases: ["M.G. Road Metro", "MG Road Kochi"] },
+  { id: "vyttila-hub", name: "Vyttila Mobility Hub", kind: "transit_stop", district: "Ernakulam", lat: 9.9683, lon: 76.3217, aliases: ["Vyttila Hub", "Vyttila Bus Stand", "Vyttila Metro"] },
+  { id: "ernakulam-ksrtc", name: "Ernakulam KSRTC Bus Station", kind: "transit_stop", district: "Ernakulam", lat: 9.9727, lon: 76.2893, aliases: ["Ernakulam KSRTC", "Ernakulam Bus Stand"] },
+  { id: "thampanoor-ksrtc", name: "Thampanoor KSRTC Bus Station", kind: "transit_stop", district: "Thiruvananthapuram", lat: 8.4869, lon: 76.9516, aliases: ["Thampanoor Bus Stand", "Trivandrum Central Bus Station", "Thampanoor"] },
+  { id: "thrissur-ksrtc", name: "Thrissur KSRTC Bus Station", kind: "transit_stop", district: "Thrissur", lat: 10.5170, lon: 76.2120, aliases: ["Thrissur KSRTC", "Trichur Bus Stand"] },
+  { id: "kozhikode-ksrtc", name: "Kozhikode KSRTC Bus Terminal", kind: "transit_stop", district: "Kozhikode", lat: 11.2531, lon: 75.7859, aliases: ["Calicut KSRTC", "Mavoor Road Bus Stand"] },
+  { id: "kottayam-ksrtc", name: "Kottayam KSRTC Bus Station", kind: "transit_stop", district: "Kottayam", lat: 9.5877, lon: 76.5214, aliases: ["Kottayam Bus Stand"] },
+  { id: "fort-kochi-jetty", name: "Fort Kochi Boat Jetty", kind: "transit_stop", district: "Ernakulam", lat: 9.9670, lon: 76.2420, aliases: ["Fort Kochi Ferry", "Customs Jetty"] },
+  { id: "ernakulam-jetty", name: "Ernakulam Boat Jetty", kind: "transit_stop", district: "Ernakulam", lat: 9.9787, lon: 76.2775, aliases: ["Main Boat Jetty", "Ernakulam Ferry"] },
+  { id: "high-court-water-metro", name: "High Court Water Metro Terminal", kind: "transit_stop", district: "Ernakulam", lat: 9.9856, lon: 76.2747, aliases: ["High Court Jetty", "Kochi Water Metro"] },
+];
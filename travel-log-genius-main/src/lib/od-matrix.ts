@@ -0,0 +1,128 @@
+import { TripRecord } from "./trips";
+import { LatLon, getTripEndPoint } from "./geo";
+import { resolvePlace } from "./gazetteer";
+import { getStudyAreaHour } from "./study-area-time";
+
+export type OdTrip = Pick<
+  TripRecord,
+  "origin" | "destination" | "origin_place_id" | "destination_place_id" | "origin_lat" | "origin_lon" | "destination_lat" | "destination_lon" | "origin_zone_id" | "destination_zone_id" | "mode" | "purpose" | "start_time"
+>;
+
+// A single trip, or trips grouped by their ends as research_od_groups returns them with a trip count
+export type OdEnds = Omit<OdTrip, "mode" | "purpose" | "start_time"> & { trips?: number };
+
+export type ZoneScheme =
+  | { type: "label" }
+  | { type: "grid"; cellSize: number }
+  | { type: "mapping"; rules: ZoneRule[] }
+  // The traffic analysis zones stored on each trip, see zone-system.ts
+  | { type: "taz" };
+
+export interface ZoneRule {
+  zone: string;
+  keywords: string[];
+}
+
+export interface OdMatrix {
+  zones: string[];
+  counts: Record<string, Record<string, number>>;
+  rowTotals: Record<string, number>;
+  columnTotals: Record<string, number>;
+  total: number;
+  max: number;
+}
+
+export const UNASSIGNED_ZONE = "Unassigned";
+
+export const timeOfDayPeriods = [
+  { value: "am_peak", label: "AM Peak (07–10)", start: 7, end: 10 },
+  { value: "midday", label: "Midday (10–16)", start: 10, end: 16 },
+  { value: "pm_peak", label: "PM Peak (16–19)", start: 16, end: 19 },
+  { value: "evening", label: "Evening (19–22)", start: 19, end: 22 },
+  { value: "night", label: "Night (22–07)", start: 22, end: 7 },
+];
+
+// Bucketed in Kerala time, as research_od_groups does, whatever the researcher's own time zone
+export const getTimeOfDay = (value?: string) => {
+  if (!value) return null;
+  const hour = getStudyAreaHour(new Date(value));
+  return timeOfDayPeriods.find(p =>
+    p.start < p.end ? hour >= p.start && hour < p.end : hour >= p.start || hour < p.end
+  )?.value ?? null;
+};
+
+const normalizeLabel = (value: string) => value.trim().replace(/\s+/g, " ").toLowerCase();
+
+// One "Zone: keyword, keyword" rule per line
+export const parseZoneRules = (text: string): ZoneRule[] =>
+  text
+    .split("\n")
+    .map(line => line.split(":"))
+    .filter(parts => parts.length >= 2 && parts[0].trim())
+    .map(([zone, ...rest]) => ({
+      zone: zone.trim(),
+      keywords: rest.join(":").split(",").map(normalizeLabel).filter(Boolean)
+    }));
+
+export const assignZone = (location: string, point: LatLon | null, scheme: ZoneScheme) => {
+  if (scheme.type === "grid") {
+    if (!point) return UNASSIGNED_ZONE;
+    const decimals = Math.max(0, -Math.floor(Math.log10(scheme.cellSize)));
+    const snap = (v: number) => (Math.floor(v / scheme.cellSize) * scheme.cellSize).toFixed(decimals);
+    return `${snap(point.lat)}/${snap(point.lon)}`;
+  }
+
+  if (!location?.trim()) return UNASSIGNED_ZONE;
+
+  switch (scheme.type) {
+    case "label":
+      return normalizeLabel(location);
+    case "mapping": {
+      const label = normalizeLabel(location);
+      return scheme.rules.find(rule => rule.keywords.some(k => label.includes(k)))?.zone ?? UNASSIGNED_ZONE;
+    }
+  }
+};
+
+// Label zones use the canonical place name so "Cochin" and "Kochi" land in the same row
+const zoneLabel = (trip: OdEnds, end: "origin" | "destination", scheme: ZoneScheme) =>
+  scheme.type === "label" ? resolvePlace(trip[end], trip[`${end}_place_id`])?.name ?? trip[end] : trip[end];
+
+export const assignTripZone = (trip: OdEnds, end: "origin" | "destination", scheme: ZoneScheme) =>
+  scheme.type === "taz"
+    ? trip[`${end}_zone_id`] || UNASSIGNED_ZONE
+    : assignZone(zoneLabel(trip, end, scheme), getTripEndPoint(trip, end), scheme);
+
+export const buildOdMatrix = (trips: OdEnds[], scheme: ZoneScheme): OdMatrix => {
+  const counts: Record<string, Record<string, number>> = {};
+  const rowTotals: Record<string, number> = {};
+  const columnTotals: Record<string, number> = {};
+  let max = 0;
+  let total = 0;
+
+  trips.forEach(trip => {
+    const from = assignTripZone(trip, "origin", scheme);
+    const to = assignTripZone(trip, "destination", scheme);
+    const weight = trip.trips ?? 1;
+    counts[from] = counts[from] || {};
+    counts[from][to] = (counts[from][to] || 0) + weight;
+    max = Math.max(max, counts[from][to]);
+    rowTotals[from] = (rowTotals[from] || 0) + weight;
+    columnTotals[to] = (columnTotals[to] || 0) + weight;
+    total += weight;
+  });
+
+  // Square matrix: every zone appears as both a row and a column, busiest first
+  const zones = Array.from(new Set([...Object.keys(rowTotals), ...Object.keys(columnTotals)]))
+    .sort((a, b) =>
+      ((rowTotals[b] || 0) + (columnTotals[b] || 0)) - ((rowTotals[a] || 0) + (columnTotals[a] || 0)) ||
+      a.localeCompare(b)
+    );
+
+  return { zones, counts, rowTotals, columnTotals, total, max };
+};
+
+export const odMatrixToRows = (matrix: OdMatrix) => [
+  ["Origin \\ Destination", ...matrix.zones],
+  ...matrix.zones.map(from => [from, ...matrix.zones.map(to => matrix.counts[from]?.[to] ?? 0)])
+];
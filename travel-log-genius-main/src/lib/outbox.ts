@@ -0,0 +1,74 @@
+import type { TripLegPayload, TripPayload } from "./trip-sync";
+
+const DB_NAME = "travel-log-outbox";
+const DB_VERSION = 1;
+const STORE = "trips";
+
+export interface OutboxEntry {
+  client_id: string;
+  trip: TripPayload;
+  legs: TripLegPayload[];
+  queued_at: string;
+  attempts: number;
+  next_attempt_at: number;
+  last_error?: string;
+}
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "client_id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notifyChange = () => window.dispatchEvent(new Event("outbox-change"));
+
+// The device may be shared, so each participant only ever sees and sends their own queued trips
+export const getQueuedTrips = async (userId: string) => {
+  const entries = await withStore<OutboxEntry[]>("readonly", store => store.getAll());
+  return entries.filter(entry => entry.trip.user_id === userId);
+};
+
+export const putQueuedTrip = async (entry: OutboxEntry) => {
+  await withStore("readwrite", store => store.put(entry));
+  notifyChange();
+};
+
+export const queueTrip = (trip: TripPayload, legs: TripLegPayload[]) =>
+  putQueuedTrip({
+    client_id: trip.client_id,
+    trip,
+    legs,
+    queued_at: new Date().toISOString(),
+    attempts: 0,
+    next_attempt_at: Date.now()
+  });
+
+export const removeQueuedTrip = async (clientId: string) => {
+  await withStore("readwrite", store => store.delete(clientId));
+  notifyChange();
+};
+
+// Leaves other participants' queued trips on the device untouched
+export const clearQueuedTrips = async (userId: string) => {
+  const entries = await getQueuedTrips(userId);
+  await Promise.all(entries.map(entry => withStore("readwrite", store => store.delete(entry.client_id))));
+  notifyChange();
+};
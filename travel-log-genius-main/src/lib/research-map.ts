@@ -0,0 +1,106 @@
+import { LatLon } from "./geo";
+import { getDistrictCentroid } from "./gazetteer";
+import { formatMode } from "./trips";
+
+// Leaflet writes colours into SVG attributes, where CSS variables do not resolve, so they are spelled out
+export const modeColors: Record<string, string> = {
+  walking: "hsl(142, 71%, 45%)",
+  bicycle: "hsl(84, 81%, 44%)",
+  motorcycle: "hsl(24, 95%, 53%)",
+  car: "hsl(201, 89%, 48%)",
+  bus: "hsl(0, 72%, 51%)",
+  train: "hsl(262, 83%, 58%)",
+  metro: "hsl(330, 81%, 60%)",
+  "auto rickshaw": "hsl(45, 93%, 47%)",
+  taxi: "hsl(173, 58%, 39%)",
+  other: "hsl(215, 13%, 45%)",
+};
+
+export const getModeColor = (mode: string) => modeColors[mode] ?? modeColors.other;
+
+export interface PointCluster {
+  center: LatLon;
+  count: number;
+  origins: number;
+  destinations: number;
+}
+
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Roughly 30 km cells at state level, shrinking to a few tens of metres at street level.
+// Clustering runs at every zoom and only over the visible area, see research_map_clusters.
+export const clusterCellSize = (zoom: number) => 40 / 2 ** zoom;
+
+export interface ZoneTotal {
+  zone: string;
+  center: LatLon;
+  origins: number;
+  destinations: number;
+}
+
+export interface ZoneFlow {
+  origin: string;
+  destination: string;
+  from: LatLon;
+  to: LatLon;
+  trips: number;
+  modes: { mode: string; label: string; count: number }[];
+  // The mode carrying most trips on the pair, which sets the line colour
+  mainMode: string;
+}
+
+// Per-district totals and district pairs by mode, as research_trip_summary counts them from the stored districts
+export interface DistrictCount {
+  district: string;
+  origins: number;
+  destinations: number;
+}
+
+export interface DistrictFlowCount {
+  origin: string;
+  destination: string;
+  mode: string;
+  count: number;
+}
+
+// Trips that start and end in one district count towards its total but draw no line
+export const buildZoneFlows = (districts: DistrictCount[], flowCounts: DistrictFlowCount[]) => {
+  const zones: ZoneTotal[] = districts
+    .map(({ district, origins, destinations }) => ({ zone: district, center: getDistrictCentroid(district), origins, destinations }))
+    .filter(zone => zone.center);
+
+  const pairs = new Map<string, { origin: string; destination: string; trips: number; modes: Record<string, number> }>();
+  flowCounts.forEach(({ origin, destination, mode, count }) => {
+    const key = `${origin}\u0000${destination}`;
+    const pair = pairs.get(key) ?? { origin, destination, trips: 0, modes: {} };
+    pair.trips += count;
+    pair.modes[mode] = (pair.modes[mode] || 0) + count;
+    pairs.set(key, pair);
+  });
+
+  const flows: ZoneFlow[] = Array.from(pairs.values())
+    .map(pair => {
+      const modes = Object.entries(pair.modes)
+        .map(([mode, count]) => ({ mode, label: formatMode(mode), count }))
+        .sort((a, b) => b.count - a.count);
+      return {
+        origin: pair.origin,
+        destination: pair.destination,
+        from: getDistrictCentroid(pair.origin),
+        to: getDistrictCentroid(pair.destination),
+        trips: pair.trips,
+        modes,
+        mainMode: modes[0].mode
+      };
+    })
+    .filter(flow => flow.from && flow.to)
+    // Busiest last so they are drawn on top
+    .sort((a, b) => a.trips - b.trips);
+
+  return { flows, zones };
+};
@@ -0,0 +1,99 @@
+export interface ResearchFilters {
+  search: string;
+  mode: string;
+  purpose: string;
+  flag: string;
+  review: string;
+  income: string;
+  vehicle: string;
+  homeZone: string;
+  age: string;
+  // District that the trip starts or ends in
+  zone: string;
+  // Traffic analysis zone IDs, or "unassigned"
+  originZone: string;
+  destinationZone: string;
+}
+
+// Reviewer-excluded trips stay out of counts and exports unless asked for explicitly
+export const defaultResearchFilters: ResearchFilters = {
+  search: "",
+  mode: "all",
+  purpose: "all",
+  flag: "all",
+  review: "included",
+  income: "all",
+  vehicle: "all",
+  homeZone: "all",
+  age: "all",
+  zone: "all",
+  originZone: "all",
+  destinationZone: "all",
+};
+
+export const UNASSIGNED_ZONE_FILTER = "unassigned";
+
+export type ResearchSortColumn =
+  | "created_at"
+  | "start_time"
+  | "mode"
+  | "origin"
+  | "destination"
+  | "origin_zone_id"
+  | "destination_zone_id";
+
+export interface ResearchSort {
+  column: ResearchSortColumn;
+  ascending: boolean;
+}
+
+export const defaultResearchSort: ResearchSort = { column: "created_at", ascending: false };
+
+export const researchSortOptions: { value: ResearchSortColumn; label: string }[] = [
+  { value: "created_at", label: "Recorded at" },
+  { value: "start_time", label: "Start time" },
+  { value: "mode", label: "Mode" },
+  { value: "origin", label: "Origin" },
+  { value: "destination", label: "Destination" },
+  { value: "origin_zone_id", label: "Origin zone" },
+  { value: "destination_zone_id", label: "Destination zone" },
+];
+
+export const RESEARCH_PAGE_SIZE = 25;
+
+const filterKeys = Object.keys(defaultResearchFilters) as (keyof ResearchFilters)[];
+
+// Only values that differ from the defaults go into the URL, so a plain dashboard link stays short
+export const readResearchParams = (params: URLSearchParams) => {
+  const filters = { ...defaultResearchFilters };
+  filterKeys.forEach(key => {
+    const value = params.get(key);
+    if (value !== null) filters[key] = value;
+  });
+
+  const column = params.get("sort") as ResearchSortColumn | null;
+  const sort: ResearchSort = {
+    column: researchSortOptions.some(option => option.value === column) ? column : defaultResearchSort.column,
+    ascending: params.has("dir") ? params.get("dir") === "asc" : defaultResearchSort.ascending
+  };
+
+  const page = Math.max(1, Number(params.get("page")) || 1);
+  return { filters, sort, page };
+};
+
+export const writeResearchParams = (filters: ResearchFilters, sort: ResearchSort, page: number) => {
+  const params = new URLSearchParams();
+  filterKeys.forEach(key => {
+    if (filters[key] !== defaultResearchFilters[key]) params.set(key, filters[key]);
+  });
+  if (sort.column !== defaultResearchSort.column) params.set("sort", sort.column);
+  if (sort.ascending !== defaultResearchSort.ascending) params.set("dir", sort.ascending ? "asc" : "desc");
+  if (page > 1) params.set("page", String(page));
+  return params;
+};
+
+export const hasActiveFilters = (filters: ResearchFilters) =>
+  filterKeys.some(key => filters[key] !== defaultResearchFilters[key]);
+
+// Keeps user-typed text from acting as an ilike wildcard in research_trip_matches
+export const sanitizeSearchTerm = (term: string) => term.replace(/[,()*%_\\"]/g, " ").replace(/\s+/g, " ").trim();
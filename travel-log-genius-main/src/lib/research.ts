@@ -0,0 +1,210 @@
+import { supabase } from "./supabase";
+import { canAccessResearch, fetchUserRole } from "./roles";
+import { TripEdit, TripRecord } from "./trips";
+import { HouseholdProfile } from "./household";
+import { DiaryCounts, toDiaryStats } from "./diary-days";
+import { searchPlaces } from "./gazetteer";
+import { ReviewStatus, TripReview, getTripReview } from "./trip-review";
+import { DurationCount, HourCount, ModeCount, PartyGroup, WeekdayCount } from "./analytics";
+import { DistrictCount, DistrictFlowCount, MapBounds, PointCluster } from "./research-map";
+import { ZoneCount } from "./zone-system";
+import { OdEnds, ZoneScheme, timeOfDayPeriods } from "./od-matrix";
+import { RESEARCH_PAGE_SIZE, ResearchFilters, ResearchSort, sanitizeSearchTerm } from "./research-query";
+
+export interface ResearchTrip extends Omit<TripRecord, "id" | "user_id"> {
+  id: number;
+  user_id: string;
+  trip_edits?: TripEdit[];
+  household?: HouseholdProfile | null;
+  review?: TripReview | null;
+  review_status?: ReviewStatus | null;
+}
+
+// Aggregates of every matching trip, worked out by research_trip_summary
+export interface TripSummary {
+  total: number;
+  participants: number;
+  excluded: number;
+  modes: ModeCount[];
+  purposes: { purpose: string; count: number; avg_activity_minutes: number | null }[];
+  hours: HourCount[];
+  weekdays: WeekdayCount[];
+  durations: DurationCount[];
+  parties: PartyGroup[];
+  zones: ZoneCount[];
+  districts: DistrictCount[];
+  flows: DistrictFlowCount[];
+}
+
+export const emptyTripSummary: TripSummary = {
+  total: 0,
+  participants: 0,
+  excluded: 0,
+  modes: [],
+  purposes: [],
+  hours: [],
+  weekdays: [],
+  durations: [],
+  parties: [],
+  zones: [],
+  districts: [],
+  flows: []
+};
+
+// Same code Postgres uses for insufficient_privilege, so callers can treat it like a denied query
+const accessDenied = {
+  data: null,
+  error: { code: '42501', message: "Research data is only available to researchers." }
+};
+
+// Researcher-only read path. Participants go through Dashboard's own-trip query instead; the row-level
+// security policies in supabase/migrations are the real boundary and this check keeps the client from even asking.
+const isResearcher = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  return !!user && canAccessResearch(await fetchUserRole(user.id));
+};
+
+// research_trip_matches returns rows of the research_trips view, so the review and legs still embed
+const FULL_COLUMNS = '*, trip_legs(*), trip_edits(*), trip_reviews(*)';
+
+// PostgREST caps a single response, so exports are read in batches of this size
+const BATCH_SIZE = 1000;
+
+// Filtering happens in research_trip_matches against the corrected values, so no ID lists travel in the URL.
+// The search also matches trips recorded under another spelling of a place it names.
+const toFilterArgs = (filters: ResearchFilters) => {
+  const search = sanitizeSearchTerm(filters.search);
+  return {
+    ...filters,
+    search,
+    searchPlaceIds: search ? searchPlaces(search, Infinity).map(place => place.id) : []
+  };
+};
+
+const matchingTrips = (filters: ResearchFilters, options?: { count?: 'exact' }) =>
+  supabase.rpc('research_trip_matches', { p_filters: toFilterArgs(filters) }, options);
+
+// Columns vary by query, so rows are typed loosely until they become ResearchTrips
+type TripRow = Record<string, unknown>;
+
+const toResearchTrip = ({
+  trip_reviews,
+  household_size,
+  household_members,
+  household_vehicles,
+  household_income_band,
+  household_home_zone,
+  household_home_place_id,
+  ...trip
+}: TripRow) =>
+  ({
+    ...trip,
+    review: getTripReview({ trip_reviews: trip_reviews as TripReview | TripReview[] | null }),
+    household: household_size
+      ? {
+          household_size,
+          household_members,
+          vehicles: household_vehicles,
+          income_band: household_income_band,
+          home_zone: household_home_zone,
+          home_place_id: household_home_place_id
+        }
+      : null
+  }) as ResearchTrip;
+
+const fetchTripRows = (filters: ResearchFilters, sort: ResearchSort, from: number, to: number, count?: 'exact') =>
+  matchingTrips(filters, count ? { count } : undefined)
+    .select(FULL_COLUMNS)
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+    .order('id', { ascending: sort.ascending })
+    .range(from, to)
+    .overrideTypes<TripRow[], { merge: false }>();
+
+export const fetchResearchTripPage = async (filters: ResearchFilters, sort: ResearchSort, page: number, pageSize = RESEARCH_PAGE_SIZE) => {
+  if (!(await isResearcher())) return accessDenied;
+
+  const from = (page - 1) * pageSize;
+  const { data, count, error } = await fetchTripRows(filters, sort, from, from + pageSize - 1, 'exact');
+  if (error) return { data: null, error };
+
+  return { data: { trips: (data ?? []).map(toResearchTrip), count: count ?? 0 }, error: null };
+};
+
+export const fetchResearchTripCount = async (filters: ResearchFilters) => {
+  if (!(await isResearcher())) return accessDenied;
+
+  const { count, error } = await matchingTrips(filters, { count: 'exact' }).select('id').range(0, 0);
+  if (error) return { data: null, error };
+  return { data: count ?? 0, error: null };
+};
+
+// Exports need the rows themselves, so they are the one place every matching trip is downloaded
+export const fetchResearchTripsForExport = async (filters: ResearchFilters, sort: ResearchSort) => {
+  if (!(await isResearcher())) return accessDenied;
+
+  const trips: ResearchTrip[] = [];
+  for (let from = 0; ; from += BATCH_SIZE) {
+    const { data, error } = await fetchTripRows(filters, sort, from, from + BATCH_SIZE - 1);
+    if (error) return { data: null, error };
+    trips.push(...(data ?? []).map(toResearchTrip));
+    if (!data || data.length < BATCH_SIZE) return { data: trips, error: null };
+  }
+};
+
+export const fetchResearchTripSummary = async (filters: ResearchFilters) => {
+  if (!(await isResearcher())) return accessDenied;
+
+  const { data, error } = await supabase.rpc('research_trip_summary', { p_filters: toFilterArgs(filters) });
+  if (error) return { data: null, error };
+  return { data: { ...emptyTripSummary, ...(data as Partial<TripSummary>) }, error: null };
+};
+
+export const fetchResearchMapClusters = async (filters: ResearchFilters, cellSize: number, bounds: MapBounds | null) => {
+  if (!(await isResearcher())) return accessDenied;
+
+  const { data, error } = await supabase.rpc('research_map_clusters', {
+    p_filters: toFilterArgs(filters),
+    p_cell_size: cellSize,
+    p_bounds: bounds
+  });
+  if (error) return { data: null, error };
+
+  const clusters: PointCluster[] = ((data ?? []) as { lat: number; lon: number; count: number; origins: number; destinations: number }[])
+    .map(({ lat, lon, count, origins, destinations }) => ({ center: { lat, lon }, count, origins, destinations }));
+  return { data: clusters, error: null };
+};
+
+export interface OdSlice {
+  mode: string;
+  purpose: string;
+  period: string;
+}
+
+// Trips grouped by what the zone scheme reads. Keyword rules are matched in the browser, so the server only
+// needs the scheme type and grid size, and editing rules does not refetch.
+export const fetchResearchOdGroups = async (
+  filters: ResearchFilters,
+  scheme: { type: ZoneScheme["type"]; cellSize: number },
+  slice: OdSlice
+) => {
+  if (!(await isResearcher())) return accessDenied;
+
+  const period = timeOfDayPeriods.find(p => p.value === slice.period);
+  const { data, error } = await supabase.rpc('research_od_groups', {
+    p_filters: toFilterArgs(filters),
+    p_scheme: scheme,
+    p_slice: { mode: slice.mode, purpose: slice.purpose, startHour: period?.start ?? null, endHour: period?.end ?? null }
+  });
+  if (error) return { data: null, error };
+  return { data: (data ?? []) as OdEnds[], error: null };
+};
+
+// Household filters narrow the participants; the remaining trip filters narrow the trips counted on their days
+export const fetchResearchDiaryStats = async (filters: ResearchFilters) => {
+  if (!(await isResearcher())) return accessDenied;
+
+  const { data, error } = await supabase.rpc('research_diary_summary', { p_filters: toFilterArgs(filters) });
+  if (error) return { data: null, error };
+
+  return { data: toDiaryStats(data as DiaryCounts), error: null };
+};
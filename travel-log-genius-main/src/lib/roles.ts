@@ -0,0 +1,25 @@
+import { supabase } from "./supabase";
+
+export type UserRole = "participant" | "researcher" | "admin";
+
+export const canAccessResearch = (role: UserRole | null) => role === "researcher" || role === "admin";
+
+// Zone boundaries re-zone every trip, so only admins may replace them
+export const canManageZones = (role: UserRole | null) => role === "admin";
+
+// Roles sit in user_roles, which participants can read but never write; anyone without a row is a participant.
+// A failed lookup returns null rather than guessing, which would put researchers through the participant gates.
+export const fetchUserRole = async (userId: string): Promise<UserRole | null> => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Role lookup error:', error);
+    return null;
+  }
+
+  return data?.role === "researcher" || data?.role === "admin" ? data.role : "participant";
+};
@@ -0,0 +1,12 @@
+// Kerala has a single time zone with no daylight saving. Times of day and calendar days are always read
+// here, so a researcher or device elsewhere sees the same buckets as the database aggregates.
+export const STUDY_AREA_TIME_ZONE = "Asia/Kolkata";
+
+const hourFormat = new Intl.DateTimeFormat("en-GB", {
+  timeZone: STUDY_AREA_TIME_ZONE,
+  hour: "numeric",
+  hourCycle: "h23"
+});
+
+// 0–23, the hour on a clock in the study area
+export const getStudyAreaHour = (date: Date) => Number(hourFormat.format(date));
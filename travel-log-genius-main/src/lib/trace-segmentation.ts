@@ -0,0 +1,272 @@
+import { LatLon, distanceKm } from "./geo";
+import { TracePoint, encodePolyline, getTraceDistanceKm } from "./gps-trace";
+import { reverseGeocode } from "./gazetteer";
+import { TripLeg, TripRecord, getModeSplit } from "./trips";
+
+export interface SegmentationOptions {
+  // A stop is time spent within this radius...
+  stopRadiusMeters: number;
+  // ...for at least this long
+  minStopMinutes: number;
+  // Shorter movements between stops are GPS drift, not trips
+  minTripMeters: number;
+  // Shorter runs are merged into the neighbouring leg
+  minLegMinutes: number;
+}
+
+export const defaultSegmentationOptions: SegmentationOptions = {
+  stopRadiusMeters: 200,
+  minStopMinutes: 5,
+  minTripMeters: 300,
+  minLegMinutes: 2
+};
+
+export interface StayPoint extends LatLon {
+  arrived_at: number;
+  departed_at: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface ModeGuess {
+  mode: string;
+  confidence: number;
+}
+
+export interface DetectedLeg extends ModeGuess {
+  start: number;
+  end: number;
+  points: TracePoint[];
+}
+
+export interface DetectedTrip {
+  id: string;
+  start: number;
+  end: number;
+  origin: LatLon;
+  destination: LatLon;
+  points: TracePoint[];
+  distance_km: number;
+  legs: DetectedLeg[];
+}
+
+// Walking pace tops out around 2 m/s; anything sustained above it is a vehicle or a bicycle
+const WALK_SPEED_MS = 2.2;
+// Below this, successive fixes differ by GPS noise rather than real movement
+const MOVING_SPEED_MS = 0.5;
+
+const centroid = (points: LatLon[]): LatLon => ({
+  lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+  lon: points.reduce((sum, p) => sum + p.lon, 0) / points.length
+});
+
+// Metres per second between each point and the one before it; the first point has none
+const getSpeeds = (points: TracePoint[]) =>
+  points.map((point, index) => {
+    if (index === 0) return null;
+    const seconds = (point.timestamp - points[index - 1].timestamp) / 1000;
+    return seconds > 0 ? (distanceKm(points[index - 1], point) * 1000) / seconds : null;
+  });
+
+const percentile = (values: number[], p: number) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+// Stay-point detection: the longest run of points that stays within the radius of its first point.
+// Steady movement at either end of a run is the walk away or back, so it is trimmed off, and a run
+// that is moving throughout (a slow walk) is not a stay at all.
+export const detectStayPoints = (points: TracePoint[], options = defaultSegmentationOptions): StayPoint[] => {
+  const stays: StayPoint[] = [];
+  const radiusKm = options.stopRadiusMeters / 1000;
+  const minStayMs = options.minStopMinutes * 60 * 1000;
+  const speeds = getSpeeds(points);
+  const moving = (index: number) => (speeds[index] ?? 0) >= MOVING_SPEED_MS;
+  let i = 0;
+
+  while (i < points.length) {
+    let j = i + 1;
+    while (j < points.length && distanceKm(points[i], points[j]) <= radiusKm) j++;
+
+    let first = i;
+    let last = j - 1;
+    while (last > first && moving(last)) last--;
+    while (first < last && moving(first + 1)) first++;
+    const stationary = percentile(speeds.slice(first + 1, last + 1).filter((s): s is number => s !== null), 0.5) < MOVING_SPEED_MS;
+
+    if (stationary && points[last].timestamp - points[first].timestamp >= minStayMs) {
+      stays.push({
+        ...centroid(points.slice(first, last + 1)),
+        arrived_at: points[first].timestamp,
+        departed_at: points[last].timestamp,
+        startIndex: first,
+        endIndex: last
+      });
+      i = last + 1;
+    } else {
+      i++;
+    }
+  }
+  return stays;
+};
+
+// Rough rules from speed and acceleration; the participant confirms or corrects every guess
+export const inferMode = (points: TracePoint[]): ModeGuess => {
+  const pointSpeeds = getSpeeds(points);
+  const speeds = pointSpeeds.filter((s): s is number => s !== null);
+  if (!speeds.length) return { mode: "other", confidence: 0 };
+
+  const median = percentile(speeds, 0.5);
+  const p85 = percentile(speeds, 0.85);
+  const stopShare = speeds.filter(s => s < 0.5).length / speeds.length;
+  // Paired by point before dropping missing speeds, so each change is divided by the time it actually took
+  const accelerations = pointSpeeds.flatMap((speed, index) => {
+    const previous = pointSpeeds[index - 1];
+    if (speed === null || previous == null) return [];
+    const seconds = (points[index].timestamp - points[index - 1].timestamp) / 1000;
+    return [Math.abs(speed - previous) / seconds];
+  });
+  const meanAcceleration = accelerations.length
+    ? accelerations.reduce((sum, a) => sum + a, 0) / accelerations.length
+    : 0;
+
+  if (p85 <= WALK_SPEED_MS) return { mode: "walking", confidence: 0.9 };
+  if (p85 >= 25) return { mode: "train", confidence: 0.7 };
+  if (p85 <= 7 && meanAcceleration < 0.3) return { mode: "bicycle", confidence: 0.5 };
+  // Frequent stops with hard starts and stops are typical of buses working their stops
+  if (stopShare >= 0.15 && p85 < 17) return { mode: "bus", confidence: 0.5 };
+  if (median < 8 && meanAcceleration >= 0.5) return { mode: "auto rickshaw", confidence: 0.35 };
+  if (p85 < 14) return { mode: "motorcycle", confidence: 0.35 };
+  return { mode: "car", confidence: 0.45 };
+};
+
+// Every change of vehicle involves some walking, so legs are cut where the trace drops to walking pace
+export const splitLegs = (points: TracePoint[], options = defaultSegmentationOptions): DetectedLeg[] => {
+  const speeds = getSpeeds(points);
+  // Median of three smooths out single jittery fixes
+  const smoothed = speeds.map((_, index) => {
+    const window = speeds.slice(Math.max(1, index - 1), index + 2).filter((s): s is number => s !== null);
+    return window.length ? percentile(window, 0.5) : 0;
+  });
+
+  const runs: { walking: boolean; from: number; to: number }[] = [];
+  points.forEach((_, index) => {
+    const walking = smoothed[index] <= WALK_SPEED_MS;
+    const current = runs[runs.length - 1];
+    if (current && current.walking === walking) current.to = index;
+    else runs.push({ walking, from: Math.max(0, index - 1), to: index });
+  });
+
+  // Fold runs too short to be a real leg into the run before them
+  const minMs = options.minLegMinutes * 60 * 1000;
+  const merged = runs.reduce<typeof runs>((result, run) => {
+    const previous = result[result.length - 1];
+    const tooShort = points[run.to].timestamp - points[run.from].timestamp < minMs;
+    if (previous && (tooShort || previous.walking === run.walking)) previous.to = run.to;
+    else result.push({ ...run });
+    return result;
+  }, []);
+
+  return merged.map(run => {
+    const legPoints = points.slice(run.from, run.to + 1);
+    return {
+      ...inferMode(legPoints),
+      start: legPoints[0].timestamp,
+      end: legPoints[legPoints.length - 1].timestamp,
+      points: legPoints
+    };
+  });
+};
+
+// Trips are the movements between stays. Movement after the last stay is still under way unless the trace has ended.
+export const segmentTrace = (
+  points: TracePoint[],
+  traceEnded: boolean,
+  options = defaultSegmentationOptions
+): DetectedTrip[] => {
+  if (points.length < 2) return [];
+  const stays = detectStayPoints(points, options);
+
+  const ranges: { from: number; to: number; origin: LatLon; destination: LatLon }[] = [];
+  let from = 0;
+  let origin: LatLon = points[0];
+  stays.forEach(stay => {
+    if (stay.startIndex > from) ranges.push({ from, to: stay.startIndex, origin, destination: stay });
+    from = stay.endIndex;
+    origin = stay;
+  });
+  if (traceEnded && from < points.length - 1) {
+    ranges.push({ from, to: points.length - 1, origin, destination: points[points.length - 1] });
+  }
+
+  return ranges
+    .map(range => {
+      const tripPoints = points.slice(range.from, range.to + 1);
+      return {
+        id: String(tripPoints[0].timestamp),
+        start: tripPoints[0].timestamp,
+        end: tripPoints[tripPoints.length - 1].timestamp,
+        origin: { lat: range.origin.lat, lon: range.origin.lon },
+        destination: { lat: range.destination.lat, lon: range.destination.lon },
+        points: tripPoints,
+        distance_km: getTraceDistanceKm(tripPoints),
+        legs: splitLegs(tripPoints, options)
+      };
+    })
+    .filter(trip => trip.distance_km * 1000 >= options.minTripMeters);
+};
+
+// Pre-fills the trip form; the participant still adds purpose and checks everything before saving
+export const detectedTripToRecord = (trip: DetectedTrip): TripRecord => {
+  const originPlace = reverseGeocode(trip.origin);
+  const destinationPlace = reverseGeocode(trip.destination);
+  const legs: TripLeg[] = trip.legs.map((leg, index) => ({
+    leg_number: index + 1,
+    mode: leg.mode,
+    start_time: new Date(leg.start).toISOString(),
+    end_time: new Date(leg.end).toISOString()
+  }));
+
+  return {
+    id: "",
+    origin: originPlace?.name ?? "",
+    destination: destinationPlace?.name ?? "",
+    origin_place_id: originPlace?.id,
+    destination_place_id: destinationPlace?.id,
+    origin_lat: trip.origin.lat,
+    origin_lon: trip.origin.lon,
+    destination_lat: trip.destination.lat,
+    destination_lon: trip.destination.lon,
+    mode: getModeSplit(legs).mainMode,
+    start_time: new Date(trip.start).toISOString(),
+    end_time: new Date(trip.end).toISOString(),
+    route_polyline: encodePolyline(trip.points),
+    route_distance_km: Math.round(trip.distance_km * 100) / 100,
+    trip_legs: legs
+  };
+};
+
+const RESOLVED_KEY = "travel-log-resolved-detections";
+
+const notifyChange = () => window.dispatchEvent(new Event("detections-change"));
+
+// Detected trips the participant has already saved or discarded, so they are not offered again
+export const getResolvedDetections = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(RESOLVED_KEY) ?? "[]");
+  } catch (error) {
+    console.error('Resolved detections read error:', error);
+    return [];
+  }
+};
+
+export const resolveDetection = (id: string) => {
+  localStorage.setItem(RESOLVED_KEY, JSON.stringify([...getResolvedDetections(), id]));
+  notifyChange();
+};
+
+export const clearResolvedDetections = () => {
+  localStorage.removeItem(RESOLVED_KEY);
+  notifyChange();
+};
@@ -0,0 +1,106 @@
+import type { ActiveTrace, TraceKind, TracePoint } from "./gps-trace";
+
+const DB_NAME = "travel-log-traces";
+const DB_VERSION = 1;
+// One settings row per trace kind, and every fix as its own row so recording never rewrites the whole trace
+const TRACES = "traces";
+const POINTS = "points";
+
+type TraceSettings = Omit<ActiveTrace, "points"> & { kind: TraceKind };
+type StoredPoint = TracePoint & { kind: TraceKind };
+
+// Where traces lived before they moved to IndexedDB; read once so a recording running during the update survives
+const legacyKeys: Record<TraceKind, string> = {
+  trip: "travel-log-active-trace",
+  day: "travel-log-day-trace"
+};
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(TRACES, { keyPath: "kind" });
+      request.result.createObjectStore(POINTS, { autoIncrement: true }).createIndex("kind", "kind");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withTransaction = async (mode: IDBTransactionMode, run: (tx: IDBTransaction) => void) => {
+  const db = await openDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction([TRACES, POINTS], mode);
+      run(tx);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const deletePoints = (tx: IDBTransaction, kind: TraceKind) => {
+  const cursorRequest = tx.objectStore(POINTS).index("kind").openKeyCursor(IDBKeyRange.only(kind));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    tx.objectStore(POINTS).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+export const saveTraceSettings = ({ points, ...settings }: ActiveTrace, kind: TraceKind) =>
+  withTransaction("readwrite", tx => {
+    tx.objectStore(TRACES).put({ ...settings, kind });
+  });
+
+export const appendTracePoint = (point: TracePoint, kind: TraceKind) =>
+  withTransaction("readwrite", tx => {
+    tx.objectStore(POINTS).add({ ...point, kind });
+  });
+
+// Starting a trace replaces whatever was stored for that kind
+export const startStoredTrace = (trace: ActiveTrace, kind: TraceKind) =>
+  withTransaction("readwrite", tx => {
+    const { points, ...settings } = trace;
+    tx.objectStore(TRACES).put({ ...settings, kind });
+    deletePoints(tx, kind);
+    points.forEach(point => tx.objectStore(POINTS).add({ ...point, kind }));
+  });
+
+export const clearStoredTrace = (kind: TraceKind) =>
+  withTransaction("readwrite", tx => {
+    tx.objectStore(TRACES).delete(kind);
+    deletePoints(tx, kind);
+  });
+
+const withoutKind = <T extends { kind: TraceKind }>({ kind, ...rest }: T) => rest;
+
+const loadLegacyTrace = async (kind: TraceKind) => {
+  const stored = localStorage.getItem(legacyKeys[kind]);
+  if (!stored) return null;
+  const trace = JSON.parse(stored) as ActiveTrace;
+  await startStoredTrace(trace, kind);
+  localStorage.removeItem(legacyKeys[kind]);
+  return trace;
+};
+
+export const loadStoredTrace = async (kind: TraceKind): Promise<ActiveTrace | null> => {
+  let settings: TraceSettings | undefined;
+  let points: StoredPoint[] = [];
+  await withTransaction("readonly", tx => {
+    const settingsRequest = tx.objectStore(TRACES).get(kind);
+    settingsRequest.onsuccess = () => {
+      settings = settingsRequest.result;
+    };
+    const pointsRequest = tx.objectStore(POINTS).index("kind").getAll(IDBKeyRange.only(kind));
+    pointsRequest.onsuccess = () => {
+      points = pointsRequest.result;
+    };
+  });
+
+  if (!settings) return loadLegacyTrace(kind);
+  // Points come back in the order they were added
+  return { ...withoutKind(settings), points: points.map(withoutKind) };
+};
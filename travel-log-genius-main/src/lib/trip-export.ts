@@ -0,0 +1,253 @@
+import { format } from "date-fns";
+import { CsvValue, toCsv } from "./csv";
+import { ResearchTrip } from "./research";
+import { getTripDurationMinutes } from "./analytics";
+import { sortLegs, transportModes, tripPurposes } from "./trips";
+import { keralaGazetteer } from "./kerala-gazetteer";
+import { getReviewStatus, reviewStatusLabels } from "./trip-review";
+import { getPartySize, getTravelParty, isJointTrip } from "./companions";
+import { PrivacyProfile, PrivacyResult, locationPrecisionLabels } from "./export-privacy";
+import { ageBands, genders, getLicenceHolders, getVehicleTotal, incomeBands, occupations, vehicleTypes } from "./household";
+
+export type DateFormat = "iso" | "local" | "excel" | "epoch";
+
+export const dateFormats: { value: DateFormat; label: string; description: string }[] = [
+  { value: "iso", label: "ISO 8601 (UTC)", description: "ISO 8601 timestamp in UTC, e.g. 2024-05-01T02:30:00.000Z" },
+  { value: "local", label: "Local (YYYY-MM-DD HH:mm)", description: "Local time as YYYY-MM-DD HH:mm" },
+  { value: "excel", label: "Excel (DD/MM/YYYY HH:mm)", description: "Local time as DD/MM/YYYY HH:mm" },
+  { value: "epoch", label: "Unix epoch (seconds)", description: "Seconds since 1970-01-01T00:00:00Z" },
+];
+
+export type ExportFormat = "csv" | "geojson" | "kml" | "xlsx";
+
+export const exportFormats: { value: ExportFormat; label: string; description: string }[] = [
+  { value: "csv", label: "CSV", description: "One row per trip, for spreadsheets and statistics packages" },
+  { value: "geojson", label: "GeoJSON", description: "Trips as lines plus a separate desire-line file, for QGIS and web maps" },
+  { value: "kml", label: "KML", description: "Trips and desire lines as folders in one file, for Google Earth" },
+  { value: "xlsx", label: "Excel workbook", description: "Trip sheet plus mode share, OD matrix, time of day and metadata sheets" },
+];
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  type: "integer" | "number" | "text" | "code" | "datetime";
+  description: string;
+  codes?: { value: string; label: string }[];
+  value: (trip: ResearchTrip) => CsvValue;
+}
+
+const modeCodes = transportModes.map(mode => ({ value: mode.toLowerCase(), label: mode }));
+const placeCodes = keralaGazetteer.map(place => ({ value: place.id, label: `${place.name} (${place.district})` }));
+
+export const tripExportColumns: ExportColumn[] = [
+  { key: "trip_id", header: "Trip ID", type: "integer", description: "Unique identifier of the trip record", value: t => t.id },
+  { key: "user_id", header: "User ID", type: "text", description: "Identifier of the participant who recorded the trip", value: t => t.user_id },
+  { key: "trip_number", header: "Trip Number", type: "text", description: "Participant-assigned trip label, if any", value: t => t.trip_number },
+  { key: "origin", header: "Origin", type: "text", description: "Trip start location as entered or auto-detected", value: t => t.origin },
+  { key: "destination", header: "Destination", type: "text", description: "Trip end location as entered", value: t => t.destination },
+  { key: "origin_place_id", header: "Origin Place ID", type: "code", description: "Gazetteer ID of the origin; blank when it matched no known place", codes: placeCodes, value: t => t.origin_place_id },
+  { key: "destination_place_id", header: "Destination Place ID", type: "code", description: "Gazetteer ID of the destination; blank when it matched no known place", codes: placeCodes, value: t => t.destination_place_id },
+  { key: "origin_lat", header: "Origin Latitude", type: "number", description: "WGS84 latitude of the origin pin; blank when not pinned", value: t => t.origin_lat },
+  { key: "origin_lon", header: "Origin Longitude", type: "number", description: "WGS84 longitude of the origin pin; blank when not pinned", value: t => t.origin_lon },
+  { key: "destination_lat", header: "Destination Latitude", type: "number", description: "WGS84 latitude of the destination pin; blank when not pinned", value: t => t.destination_lat },
+  { key: "destination_lon", header: "Destination Longitude", type: "number", description: "WGS84 longitude of the destination pin; blank when not pinned", value: t => t.destination_lon },
+  { key: "origin_zone_id", header: "Origin Zone ID", type: "text", description: "Traffic analysis zone containing the origin; blank when it could not be located or lies outside every zone", value: t => t.origin_zone_id },
+  { key: "destination_zone_id", header: "Destination Zone ID", type: "text", description: "Traffic analysis zone containing the destination; blank when it could not be located or lies outside every zone", value: t => t.destination_zone_id },
+  { key: "mode", header: "Main Mode", type: "code", description: "Main mode of the trip, chosen from its stages by mode hierarchy", codes: modeCodes, value: t => t.mode },
+  { key: "access_mode", header: "Access Mode", type: "code", description: "Mode of the first stage when it precedes the main mode; blank otherwise", codes: modeCodes, value: t => t.access_mode },
+  { key: "egress_mode", header: "Egress Mode", type: "code", description: "Mode of the last stage when it follows the main mode; blank otherwise", codes: modeCodes, value: t => t.egress_mode },
+  { key: "stages", header: "Stages", type: "text", description: "Stage modes in travel order, separated by \" > \"", value: t => sortLegs(t.trip_legs).map(leg => leg.mode).join(" > ") },
+  { key: "stage_count", header: "Stage Count", type: "integer", description: "Number of recorded stages", value: t => t.trip_legs?.length ?? 0 },
+  { key: "purpose", header: "Purpose", type: "code", description: "Activity at the destination", codes: tripPurposes, value: t => t.purpose },
+  { key: "purpose_other", header: "Purpose (Other)", type: "text", description: "Free-text purpose when Purpose is \"other\"", value: t => t.purpose_other },
+  { key: "activity_duration_minutes", header: "Activity Duration (min)", type: "integer", description: "Minutes spent at the destination", value: t => t.activity_duration_minutes },
+  { key: "start_time", header: "Start Time", type: "datetime", description: "Trip departure time", value: t => t.start_time },
+  { key: "end_time", header: "End Time", type: "datetime", description: "Trip arrival time", value: t => t.end_time },
+  {
+    key: "duration_minutes",
+    header: "Duration (min)",
+    type: "number",
+    description: "Minutes between start and end time; blank when either is missing",
+    value: t => {
+      const minutes = getTripDurationMinutes(t);
+      return minutes === null ? null : Math.round(minutes);
+    }
+  },
+  { key: "route_distance_km", header: "Route Distance (km)", type: "number", description: "Length of the recorded GPS route; blank when the trip was entered by hand", value: t => t.route_distance_km },
+  { key: "route_polyline", header: "Route Polyline", type: "text", description: "Recorded GPS route as an encoded polyline (precision 5)", value: t => t.route_polyline },
+  // Travel party; trips recorded before it was structured are parsed from the free-text answer
+  { key: "party_adults", header: "Adult Companions", type: "integer", description: "Adults travelling with the participant, not counting the participant", value: t => getTravelParty(t)?.adults },
+  { key: "party_children", header: "Child Companions", type: "integer", description: "Children travelling with the participant", value: t => getTravelParty(t)?.children },
+  { key: "party_household_members", header: "Household Companions", type: "integer", description: "Members of the participant's household on the trip", value: t => getTravelParty(t)?.household_members.length },
+  { key: "party_non_household", header: "Non-household Companions", type: "integer", description: "Companions from outside the participant's household", value: t => getTravelParty(t)?.non_household },
+  { key: "party_size", header: "Party Size", type: "integer", description: "Everyone on the trip including the participant; vehicle occupancy for private modes", value: t => (getTravelParty(t) ? getPartySize(getTravelParty(t)) : null) },
+  {
+    key: "joint_trip",
+    header: "Joint Household Trip",
+    type: "code",
+    description: "Whether the trip was made together with another household member",
+    codes: [{ value: "1", label: "Yes" }, { value: "0", label: "No" }],
+    value: t => {
+      const party = getTravelParty(t);
+      return party ? (isJointTrip(party) ? 1 : 0) : null;
+    }
+  },
+  {
+    key: "party_parsed",
+    header: "Party Parsed From Text",
+    type: "code",
+    description: "Whether the travel party was reconstructed from an older free-text answer rather than entered",
+    codes: [{ value: "1", label: "Yes" }, { value: "0", label: "No" }],
+    value: t => {
+      const party = getTravelParty(t);
+      return party ? (party.parsed ? 1 : 0) : null;
+    }
+  },
+  { key: "companions", header: "Companions (original text)", type: "text", description: "Original free-text answer about companions, only on older trips", value: t => t.companions },
+  {
+    key: "validation_flags",
+    header: "Validation Flags",
+    type: "text",
+    description: "Semicolon-separated checks the trip failed and the participant confirmed anyway (temporal_order, implied_speed, overlap, same_origin_destination, outside_study_area)",
+    value: t => t.validation_flags?.map(flag => flag.rule).join(";")
+  },
+  {
+    key: "review_status",
+    header: "Review Status",
+    type: "code",
+    description: "Outcome of the data quality review; blank when the trip was never flagged",
+    codes: Object.entries(reviewStatusLabels).map(([value, label]) => ({ value, label })),
+    value: t => getReviewStatus(t, t.review)
+  },
+  {
+    key: "corrected_fields",
+    header: "Corrected Fields",
+    type: "text",
+    description: "Semicolon-separated fields a researcher corrected; the exported values are the corrected ones",
+    value: t => Object.keys(t.review?.corrections ?? {}).join(";")
+  },
+  { key: "edit_count", header: "Edit Count", type: "integer", description: "Number of times the participant changed the trip after submitting it", value: t => t.trip_edits?.length ?? 0 },
+  { key: "created_at", header: "Recorded At", type: "datetime", description: "When the trip was first submitted", value: t => t.created_at },
+  // Household and person attributes; blank when the participant has not completed the questionnaire
+  { key: "household_size", header: "Household Size", type: "integer", description: "Number of people in the participant's household", value: t => t.household?.household_size },
+  { key: "income_band", header: "Household Income", type: "code", description: "Monthly household income band in rupees", codes: incomeBands, value: t => t.household?.income_band },
+  { key: "home_zone", header: "Home District", type: "text", description: "District of the participant's home", value: t => t.household?.home_zone },
+  { key: "home_place_id", header: "Home Place ID", type: "code", description: "Gazetteer ID of the town or locality nearest home", codes: placeCodes, value: t => t.household?.home_place_id },
+  ...vehicleTypes.map((vehicle): ExportColumn => ({
+    key: `vehicles_${vehicle.value}`,
+    header: `Household ${vehicle.label}`,
+    type: "integer",
+    description: `Number of ${vehicle.label.toLowerCase()} owned by the household`,
+    value: t => (t.household ? t.household.vehicles?.[vehicle.value] ?? 0 : null)
+  })),
+  { key: "vehicles_total", header: "Household Vehicles", type: "integer", description: "Total vehicles of all types owned by the household", value: t => (t.household ? getVehicleTotal(t.household.vehicles) : null) },
+  { key: "licence_holders", header: "Licence Holders", type: "integer", description: "Household members holding a driving licence", value: t => (t.household ? getLicenceHolders(t.household.household_members) : null) },
+  { key: "person_age_band", header: "Participant Age", type: "code", description: "Age band of the participant who recorded the trip", codes: ageBands, value: t => t.household?.household_members?.[0]?.age_band },
+  { key: "person_gender", header: "Participant Gender", type: "code", description: "Gender of the participant who recorded the trip", codes: genders, value: t => t.household?.household_members?.[0]?.gender },
+  { key: "person_occupation", header: "Participant Occupation", type: "code", description: "Occupation of the participant who recorded the trip", codes: occupations, value: t => t.household?.household_members?.[0]?.occupation },
+  {
+    key: "person_has_licence",
+    header: "Participant Has Licence",
+    type: "code",
+    description: "Whether the participant holds a driving licence",
+    codes: [{ value: "1", label: "Yes" }, { value: "0", label: "No" }],
+    value: t => {
+      const member = t.household?.household_members?.[0];
+      return member ? (member.has_licence ? 1 : 0) : null;
+    }
+  },
+];
+
+export const formatDateValue = (value: CsvValue, dateFormat: DateFormat) => {
+  if (value === null || value === undefined || value === "") return "";
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) return String(value);
+
+  switch (dateFormat) {
+    case "iso":
+      return date.toISOString();
+    case "local":
+      return format(date, "yyyy-MM-dd HH:mm");
+    case "excel":
+      return format(date, "dd/MM/yyyy HH:mm");
+    case "epoch":
+      return Math.floor(date.getTime() / 1000);
+  }
+};
+
+const selectColumns = (columnKeys: string[]) =>
+  tripExportColumns.filter(column => columnKeys.includes(column.key));
+
+const formatColumnValue = (column: ExportColumn, trip: ResearchTrip, dateFormat: DateFormat) => {
+  const value = column.value(trip);
+  return column.type === "datetime" ? formatDateValue(value, dateFormat) : value;
+};
+
+// Header row followed by one row per trip
+export const buildTripRows = (trips: ResearchTrip[], columnKeys: string[], dateFormat: DateFormat) => {
+  const columns = selectColumns(columnKeys);
+  return [
+    columns.map(column => column.header),
+    ...trips.map(trip => columns.map(column => formatColumnValue(column, trip, dateFormat)))
+  ];
+};
+
+export const buildTripCsv = (trips: ResearchTrip[], columnKeys: string[], dateFormat: DateFormat) =>
+  toCsv(buildTripRows(trips, columnKeys, dateFormat), { bom: true });
+
+// The same fields as a CSV row, keyed by field name, for formats that carry attributes per feature
+export const getTripAttributes = (trip: ResearchTrip, columnKeys: string[], dateFormat: DateFormat) =>
+  Object.fromEntries(
+    selectColumns(columnKeys).map(column => [column.key, formatColumnValue(column, trip, dateFormat) ?? null])
+  ) as Record<string, string | number | null>;
+
+const describeColumn = (column: ExportColumn, dateDescription: string, privacyNotes: Record<string, string>) =>
+  [
+    column.description,
+    column.type === "datetime" && `Format: ${dateDescription}`,
+    privacyNotes[column.key] && `Privacy: ${privacyNotes[column.key]}`
+  ].filter(Boolean).join(". ");
+
+// One row per exported field, in export order, with the code list spelled out for coded fields
+export const buildDataDictionary = (columnKeys: string[], dateFormat: DateFormat, privacyNotes: Record<string, string> = {}) => {
+  const dateDescription = dateFormats.find(f => f.value === dateFormat)?.description;
+  return toCsv([
+    ["Column", "Field", "Type", "Description", "Allowed Values"],
+    ...selectColumns(columnKeys).map(column => [
+      column.header,
+      column.key,
+      column.type,
+      describeColumn(column, dateDescription, privacyNotes),
+      column.codes?.map(code => `${code.value} = ${code.label}`).join("; ") ?? ""
+    ])
+  ], { bom: true });
+};
+
+export interface ExportMetadata {
+  profile: PrivacyProfile;
+  dateFormat: DateFormat;
+  filters: string;
+  matchedTrips: number;
+  privacy: Omit<PrivacyResult, "trips">;
+  exportedTrips: number;
+}
+
+// Travels with the data file so anyone receiving it can tell how it was produced and what was withheld
+export const getExportMetadataRows = ({ profile, dateFormat, filters, matchedTrips, privacy, exportedTrips }: ExportMetadata): CsvValue[][] => [
+  ["Field", "Value"],
+  ["Exported At", new Date().toISOString()],
+  ["Privacy Profile", profile.value],
+  ["Privacy Profile Description", `${profile.label}: ${profile.description}`],
+  ["Participant IDs", profile.pseudonymize ? "Per-export pseudonyms" : "Database user IDs"],
+  ["Location Precision", locationPrecisionLabels[profile.location]],
+  ["Grid Cell Size (degrees)", profile.location === "grid" ? profile.gridCellSize : ""],
+  ["Minimum Participants per OD Pair", profile.minOdParticipants],
+  ["Trips Matching Filters", matchedTrips],
+  ["OD Pairs Suppressed", privacy.suppressedPairs],
+  ["Trips Suppressed", privacy.suppressedTrips],
+  ["Trips Exported", exportedTrips],
+  ["Filters", filters || "None"],
+  ["Date Format", dateFormats.find(f => f.value === dateFormat)?.label],
+];
+
+export const buildExportMetadata = (metadata: ExportMetadata) => toCsv(getExportMetadataRows(metadata), { bom: true });
@@ -0,0 +1,99 @@
+import { supabase } from "./supabase";
+import { TripChange, TripRecord, formatMode, transportModes, tripPurposes } from "./trips";
+
+export type ReviewStatus = "flagged" | "clarification_requested" | "approved" | "excluded";
+
+export interface ReviewNote {
+  author_id: string | null;
+  text: string;
+  created_at: string;
+}
+
+export interface ReviewCorrection extends TripChange {
+  corrected_by: string | null;
+  corrected_at: string;
+}
+
+export interface TripReview {
+  id?: string;
+  trip_id: string | number;
+  status: ReviewStatus;
+  manual_flag_reason?: string | null;
+  notes: ReviewNote[];
+  // Keyed by trip field; "from" always holds what the participant originally recorded
+  corrections: Record<string, ReviewCorrection>;
+  clarification_request?: string | null;
+  clarification_response?: string | null;
+  clarification_responded_at?: string | null;
+  reviewed_by?: string | null;
+  updated_at?: string;
+}
+
+export const reviewStatusLabels: Record<ReviewStatus, string> = {
+  flagged: "Needs review",
+  clarification_requested: "Awaiting participant",
+  approved: "Approved",
+  excluded: "Excluded",
+};
+
+export interface CorrectableField {
+  key: keyof TripRecord;
+  label: string;
+  type: "text" | "datetime" | "number" | "select";
+  options?: { value: string; label: string }[];
+}
+
+export const correctableFields: CorrectableField[] = [
+  { key: "origin", label: "Origin", type: "text" },
+  { key: "destination", label: "Destination", type: "text" },
+  { key: "mode", label: "Main mode", type: "select", options: transportModes.map(mode => ({ value: mode.toLowerCase(), label: mode })) },
+  { key: "purpose", label: "Purpose", type: "select", options: tripPurposes },
+  { key: "start_time", label: "Start time", type: "datetime" },
+  { key: "end_time", label: "End time", type: "datetime" },
+  { key: "activity_duration_minutes", label: "Time at destination (min)", type: "number" },
+];
+
+export const formatCorrectionValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "mode") return formatMode(String(value));
+  if (field.endsWith("_time")) return new Date(String(value)).toLocaleString();
+  return String(value);
+};
+
+// PostgREST returns an embedded one-to-one row as an object or a one-element array depending on the constraint
+export const getTripReview = (trip: { trip_reviews?: TripReview | TripReview[] | null }) => {
+  const reviews = trip.trip_reviews;
+  return (Array.isArray(reviews) ? reviews[0] : reviews) ?? null;
+};
+
+// Trips failing an automated check join the queue even before anyone has looked at them
+export const getReviewStatus = (trip: Pick<TripRecord, "validation_flags">, review?: TripReview | null): ReviewStatus | null =>
+  review?.status ?? (trip.validation_flags?.length ? "flagged" : null);
+
+export const isAwaitingReview = (status: ReviewStatus | null) => status === "flagged" || status === "clarification_requested";
+
+// Each action is its own RPC that only touches the columns it owns, so concurrent reviewers never
+// overwrite each other's notes or corrections with a stale copy of the row
+export const flagTrip = async (tripId: string | number, reason: string) =>
+  supabase.rpc('flag_trip', { p_trip_id: tripId, p_reason: reason });
+
+export const setReviewStatus = async (tripId: string | number, status: ReviewStatus) =>
+  supabase.rpc('set_review_status', { p_trip_id: tripId, p_status: status });
+
+export const addReviewNote = async (tripId: string | number, text: string) =>
+  supabase.rpc('add_review_note', { p_trip_id: tripId, p_text: text });
+
+// The server keeps the participant's original value as "from", however many times the field is corrected
+export const correctTripField = async (tripId: string | number, field: string, value: unknown) =>
+  supabase.rpc('correct_trip_field', { p_trip_id: tripId, p_field: field, p_value: value });
+
+export const revertCorrection = async (tripId: string | number, field: string) =>
+  supabase.rpc('revert_correction', { p_trip_id: tripId, p_field: field });
+
+export const requestClarification = async (tripId: string | number, message: string) =>
+  supabase.rpc('request_clarification', { p_trip_id: tripId, p_message: message });
+
+// Participant side: answering sends the trip back to the researchers' queue. The RPC only lets
+// participants fill in the response, so they cannot change the status of their own trips.
+export const respondToClarification = async (tripId: string | number, response: string) =>
+  supabase.rpc('respond_to_clarification', { p_trip_id: tripId, p_response: response });
@@ -0,0 +1,115 @@
+import { supabase } from "./supabase";
+import { getQueuedTrips, putQueuedTrip, removeQueuedTrip } from "./outbox";
+import { TripRecord } from "./trips";
+import { TravelParty } from "./companions";
+import { ValidationFlag } from "./trip-validation";
+
+export interface TripPayload {
+  client_id: string;
+  user_id: string;
+  trip_number: string | null;
+  origin: string;
+  destination: string;
+  origin_lat: number | null;
+  origin_lon: number | null;
+  destination_lat: number | null;
+  destination_lon: number | null;
+  origin_place_id: string | null;
+  destination_place_id: string | null;
+  origin_district: string | null;
+  destination_district: string | null;
+  mode: string;
+  access_mode: string | null;
+  egress_mode: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  companions: string | null;
+  party: TravelParty | null;
+  purpose: string;
+  purpose_other: string | null;
+  activity_duration_minutes: number | null;
+  route_polyline: string | null;
+  route_distance_km: number | null;
+  validation_flags: ValidationFlag[] | null;
+}
+
+export interface TripLegPayload {
+  leg_number: number;
+  mode: string;
+  origin: string | null;
+  destination: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  wait_minutes: number | null;
+}
+
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+export const isNetworkError = (error: { message?: string } | null) =>
+  !navigator.onLine || /failed to fetch|network|load failed/i.test(error?.message ?? "");
+
+// client_id is the idempotency key: replaying a trip that already reached the server returns the saved row
+// instead of inserting a duplicate. The trip and its legs are written in one transaction by save_trip.
+export const saveTrip = async (trip: TripPayload, legs: TripLegPayload[]) => {
+  const { data, error } = await supabase.rpc('save_trip', { p_trip: trip, p_legs: legs });
+  if (error) return { error };
+  return { error: null, tripId: data as number };
+};
+
+// update_trip diffs against the stored row and records the trip_edits entry in the same transaction,
+// so the audit trail cannot be skipped or written on someone else's behalf
+export const updateTrip = async (before: TripRecord, trip: TripPayload, legs: TripLegPayload[]) => {
+  const { client_id, user_id, ...fields } = trip;
+  return supabase.rpc('update_trip', { p_trip_id: before.id, p_trip: fields, p_legs: legs });
+};
+
+// Soft delete: the row stays for the audit trail but drops out of every listing and export
+export const deleteTrip = async (trip: TripRecord) => supabase.rpc('delete_trip', { p_trip_id: trip.id });
+
+let syncInFlight: Promise<number> | null = null;
+
+// Replays due outbox entries; resolves with the number of trips that reached the server.
+// force also retries entries still backing off, for when the participant asks to sync now.
+export const syncOutbox = (force = false): Promise<number> => {
+  if (syncInFlight) {
+    // A forced sync waits for the running one rather than sending the same entries twice
+    return force ? syncInFlight.then(() => syncOutbox(true)) : syncInFlight;
+  }
+  syncInFlight = replayOutbox(force).finally(() => {
+    syncInFlight = null;
+  });
+  return syncInFlight;
+};
+
+const replayOutbox = async (force: boolean) => {
+  if (!navigator.onLine) return 0;
+
+  // Entries are replayed under the signed-in session, so only that participant's are sent
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return 0;
+
+  const entries = await getQueuedTrips(session.user.id);
+  let synced = 0;
+
+  for (const entry of entries) {
+    if (!force && entry.next_attempt_at > Date.now()) continue;
+
+    const { error } = await saveTrip(entry.trip, entry.legs);
+    if (!error) {
+      await removeQueuedTrip(entry.client_id);
+      synced++;
+      continue;
+    }
+
+    console.error('Outbox sync error:', error);
+    const attempts = entry.attempts + 1;
+    await putQueuedTrip({
+      ...entry,
+      attempts,
+      last_error: error.message,
+      next_attempt_at: Date.now() + Math.min(5000 * 2 ** attempts, MAX_BACKOFF_MS)
+    });
+  }
+
+  return synced;
+};
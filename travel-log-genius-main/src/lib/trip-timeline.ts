@@ -0,0 +1,60 @@
+import { getPlaceKey } from "./gazetteer";
+import { getTripDayKey } from "./diary-days";
+import { TripRecord } from "./trips";
+
+type TimelineTrip = Pick<
+  TripRecord,
+  "origin" | "destination" | "origin_place_id" | "destination_place_id" | "start_time" | "end_time" | "created_at"
+>;
+
+export interface TimelineEntry<T extends TimelineTrip> {
+  trip: T;
+  // Time since the previous trip ended; null for the first trip or when either time is missing
+  gapMinutes: number | null;
+  // How far this trip starts before the previous one ended
+  overlapMinutes: number | null;
+  // The trip does not start where the previous one ended, so a trip may be missing in between
+  chainBreak: boolean;
+}
+
+const minutesBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / 60000;
+
+// Trips with a start time come first in time order; untimed ones follow in the order they were recorded
+export const sortByStartTime = <T extends TimelineTrip>(trips: T[]) =>
+  [...trips].sort((a, b) => {
+    if (a.start_time && b.start_time) return new Date(a.start_time).getTime() - new Date(b.start_time).getTime();
+    if (a.start_time || b.start_time) return a.start_time ? -1 : 1;
+    return (a.created_at ?? "").localeCompare(b.created_at ?? "");
+  });
+
+export const buildTimeline = <T extends TimelineTrip>(trips: T[]): TimelineEntry<T>[] => {
+  const sorted = sortByStartTime(trips);
+  return sorted.map((trip, index) => {
+    const previous = sorted[index - 1];
+    if (!previous) return { trip, gapMinutes: null, overlapMinutes: null, chainBreak: false };
+
+    const chainBreak =
+      getPlaceKey(previous.destination, previous.destination_place_id) !== getPlaceKey(trip.origin, trip.origin_place_id);
+    const previousEnd = previous.end_time || previous.start_time;
+    if (!previousEnd || !trip.start_time) return { trip, gapMinutes: null, overlapMinutes: null, chainBreak };
+
+    const minutes = Math.round(minutesBetween(previousEnd, trip.start_time));
+    return minutes < 0
+      ? { trip, gapMinutes: null, overlapMinutes: -minutes, chainBreak }
+      : { trip, gapMinutes: minutes, overlapMinutes: null, chainBreak };
+  });
+};
+
+export const countTripsByDay = (trips: Pick<TripRecord, "start_time" | "created_at">[]) =>
+  trips.reduce((counts, trip) => {
+    const dayKey = getTripDayKey(trip);
+    if (dayKey) counts[dayKey] = (counts[dayKey] ?? 0) + 1;
+    return counts;
+  }, {} as Record<string, number>);
+
+export const formatGap = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+};
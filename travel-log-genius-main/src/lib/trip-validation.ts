@@ -0,0 +1,207 @@
+import { LatLon, TripEndpoints, distanceKm, getTripEndPoint, isInStudyArea } from "./geo";
+import { getPlaceKey } from "./gazetteer";
+import { TripRecord, formatMode } from "./trips";
+
+export type ValidationRule =
+  | "temporal_order"
+  | "implied_speed"
+  | "overlap"
+  | "same_origin_destination"
+  | "outside_study_area";
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+// What gets stored on the trip: only warnings survive, since errors block saving
+export interface ValidationFlag {
+  rule: ValidationRule;
+  message: string;
+}
+
+export const validationRuleLabels: Record<ValidationRule, string> = {
+  temporal_order: "Time order",
+  implied_speed: "Implausible speed",
+  overlap: "Overlapping trips",
+  same_origin_destination: "Same origin and destination",
+  outside_study_area: "Outside study area",
+};
+
+export interface ValidationTrip extends TripEndpoints {
+  id?: string | number;
+  client_id?: string | null;
+  origin_place_id?: string | null;
+  destination_place_id?: string | null;
+  mode: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  route_distance_km?: number | null;
+}
+
+export interface ValidationLeg {
+  leg_number: number;
+  start_time?: string | null;
+  end_time?: string | null;
+}
+
+// Door-to-door speeds in km/h: above "plausible" needs confirming, above "impossible" cannot be saved
+const speedLimits: Record<string, { plausible: number; impossible: number }> = {
+  walking: { plausible: 8, impossible: 20 },
+  bicycle: { plausible: 30, impossible: 50 },
+  motorcycle: { plausible: 80, impossible: 150 },
+  "auto rickshaw": { plausible: 50, impossible: 90 },
+  car: { plausible: 100, impossible: 180 },
+  taxi: { plausible: 100, impossible: 180 },
+  bus: { plausible: 70, impossible: 120 },
+  metro: { plausible: 80, impossible: 120 },
+  train: { plausible: 120, impossible: 200 },
+  other: { plausible: 150, impossible: 1000 },
+};
+
+// Roads rarely run straight, so straight-line distances are stretched before judging speed
+const DETOUR_FACTOR = 1.3;
+
+// Ends closer than this are treated as the same place
+const SAME_PLACE_KM = 0.1;
+
+const toTime = (value?: string | null) => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const sameTrip = (a: ValidationTrip, b: TripRecord) =>
+  (a.id != null && String(a.id) === String(b.id)) || (!!a.client_id && a.client_id === b.client_id);
+
+const checkTemporalOrder = (trip: ValidationTrip, legs: ValidationLeg[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const start = toTime(trip.start_time);
+  const end = toTime(trip.end_time);
+
+  if (start !== null && end !== null && end <= start) {
+    issues.push({ rule: "temporal_order", severity: "error", message: "The trip ends before it starts." });
+  }
+
+  let previousEnd: number | null = null;
+  legs.forEach(leg => {
+    const legStart = toTime(leg.start_time);
+    const legEnd = toTime(leg.end_time);
+    if (legStart !== null && legEnd !== null && legEnd < legStart) {
+      issues.push({ rule: "temporal_order", severity: "error", message: `Stage ${leg.leg_number} ends before it starts.` });
+    }
+    if (previousEnd !== null && legStart !== null && legStart < previousEnd) {
+      issues.push({
+        rule: "temporal_order",
+        severity: "error",
+        message: `Stage ${leg.leg_number} starts before the previous stage ends.`
+      });
+    }
+    previousEnd = legEnd ?? legStart ?? previousEnd;
+  });
+
+  return issues;
+};
+
+const checkImpliedSpeed = (trip: ValidationTrip, origin: LatLon | null, destination: LatLon | null): ValidationIssue[] => {
+  const start = toTime(trip.start_time);
+  const end = toTime(trip.end_time);
+  if (start === null || end === null || end <= start) return [];
+
+  const distance = trip.route_distance_km ?? (origin && destination ? distanceKm(origin, destination) * DETOUR_FACTOR : null);
+  if (!distance) return [];
+
+  const hours = (end - start) / 3600000;
+  const speed = distance / hours;
+  const limits = speedLimits[trip.mode] ?? speedLimits.other;
+  const description = `${distance.toFixed(1)} km in ${Math.round(hours * 60)} min is about ${Math.round(speed)} km/h`;
+
+  if (speed > limits.impossible) {
+    return [{
+      rule: "implied_speed",
+      severity: "error",
+      message: `${description}, which is not possible by ${formatMode(trip.mode).toLowerCase()}. Please check the times and places.`
+    }];
+  }
+  if (speed > limits.plausible) {
+    return [{
+      rule: "implied_speed",
+      severity: "warning",
+      message: `${description}, which is unusually fast by ${formatMode(trip.mode).toLowerCase()}.`
+    }];
+  }
+  return [];
+};
+
+// Both trips are compared as instants in milliseconds, never as strings, so their offsets cannot matter
+const getTimeSpan = (trip: Pick<ValidationTrip, "start_time" | "end_time">) => {
+  const start = toTime(trip.start_time);
+  return start === null ? null : { start, end: toTime(trip.end_time) ?? start };
+};
+
+const checkOverlap = (trip: ValidationTrip, existingTrips: TripRecord[]): ValidationIssue[] => {
+  const span = getTimeSpan(trip);
+  if (!span) return [];
+
+  return existingTrips
+    .filter(other => !sameTrip(trip, other))
+    .filter(other => {
+      const otherSpan = getTimeSpan(other);
+      if (!otherSpan) return false;
+      // Trips that merely touch (one ends as the next starts) are fine
+      return (span.start < otherSpan.end && otherSpan.start < span.end) || span.start === otherSpan.start;
+    })
+    .map(other => ({
+      rule: "overlap" as const,
+      severity: "warning" as const,
+      message: `Overlaps your trip from ${other.origin} to ${other.destination}.`
+    }));
+};
+
+const checkSamePlace = (trip: ValidationTrip, origin: LatLon | null, destination: LatLon | null): ValidationIssue[] => {
+  const sameKey =
+    !!trip.origin &&
+    getPlaceKey(trip.origin, trip.origin_place_id) === getPlaceKey(trip.destination, trip.destination_place_id);
+  const samePoint = !!origin && !!destination && distanceKm(origin, destination) < SAME_PLACE_KM;
+  if (!sameKey && !samePoint) return [];
+
+  return [{
+    rule: "same_origin_destination",
+    severity: "warning",
+    message: "The trip starts and ends in the same place. That is fine for a round trip such as a walk, otherwise please check."
+  }];
+};
+
+const checkStudyArea = (origin: LatLon | null, destination: LatLon | null): ValidationIssue[] =>
+  ([["origin", origin], ["destination", destination]] as const)
+    .filter(([, point]) => point && !isInStudyArea(point))
+    .map(([end]) => ({
+      rule: "outside_study_area" as const,
+      severity: "warning" as const,
+      message: `The ${end} is outside Kerala.`
+    }));
+
+export const validateTrip = (trip: ValidationTrip, legs: ValidationLeg[], existingTrips: TripRecord[] = []) => {
+  const origin = getTripEndPoint(trip, "origin");
+  const destination = getTripEndPoint(trip, "destination");
+
+  return [
+    ...checkTemporalOrder(trip, legs),
+    ...checkImpliedSpeed(trip, origin, destination),
+    ...checkOverlap(trip, existingTrips),
+    ...checkSamePlace(trip, origin, destination),
+    ...checkStudyArea(origin, destination),
+  ];
+};
+
+export const hasErrors = (issues: ValidationIssue[]) => issues.some(issue => issue.severity === "error");
+
+export const toValidationFlags = (issues: ValidationIssue[]): ValidationFlag[] =>
+  issues.filter(issue => issue.severity === "warning").map(({ rule, message }) => ({ rule, message }));
+
+// Lets the form tell whether the warnings on screen are the ones the participant already confirmed
+export const getIssueSignature = (issues: ValidationIssue[]) =>
+  issues.map(issue => `${issue.rule}:${issue.message}`).join("|");
@@ -0,0 +1,47 @@
+import { ResearchTrip } from "./research";
+import { getHourlyDistribution, getModeShare } from "./analytics";
+import { buildOdMatrix, getTimeOfDay, odMatrixToRows, timeOfDayPeriods } from "./od-matrix";
+import { DateFormat, ExportMetadata, buildTripRows, getExportMetadataRows } from "./trip-export";
+import { buildWorkbook } from "./xlsx";
+
+const percent = (count: number, total: number) => (total ? Number(((count / total) * 100).toFixed(1)) : 0);
+
+const modeShareRows = (trips: ResearchTrip[]) => [
+  ["Mode", "Trips", "Share (%)"],
+  ...getModeShare(trips).map(row => [row.label, row.count, Number(row.share.toFixed(1))]),
+  ["Total", trips.length, trips.length ? 100 : 0],
+];
+
+// Same place zoning as the dashboard's OD matrix, with totals added for the weekly pivots
+const odMatrixRows = (trips: ResearchTrip[]) => {
+  const matrix = buildOdMatrix(trips, { type: "label" });
+  const [header, ...rows] = odMatrixToRows(matrix);
+  return [
+    [...header, "Total"],
+    ...rows.map(row => [...row, matrix.rowTotals[row[0]] ?? 0]),
+    ["Total", ...matrix.zones.map(zone => matrix.columnTotals[zone] ?? 0), matrix.total],
+  ];
+};
+
+// Periods and hours are read in Kerala time so the sheet agrees with the dashboard wherever it is exported
+const timeOfDayRows = (trips: ResearchTrip[]) => {
+  const timed = trips.filter(trip => trip.start_time);
+  const periodCounts = timeOfDayPeriods.map(period => timed.filter(trip => getTimeOfDay(trip.start_time) === period.value).length);
+  return [
+    ["Period (Kerala time)", "Trips", "Share (%)"],
+    ...timeOfDayPeriods.map((period, i) => [period.label, periodCounts[i], percent(periodCounts[i], timed.length)]),
+    ["No start time", trips.length - timed.length, ""],
+    [],
+    ["Hour (Kerala time)", "Trips", "Share (%)"],
+    ...getHourlyDistribution(timed).map(bucket => [bucket.label, bucket.count, percent(bucket.count, timed.length)]),
+  ];
+};
+
+export const buildTripWorkbook = (trips: ResearchTrip[], columnKeys: string[], dateFormat: DateFormat, metadata: ExportMetadata) =>
+  buildWorkbook([
+    { name: "Trips", rows: buildTripRows(trips, columnKeys, dateFormat) },
+    { name: "Mode Share", rows: modeShareRows(trips) },
+    { name: "OD Matrix", rows: odMatrixRows(trips) },
+    { name: "Time of Day", rows: timeOfDayRows(trips) },
+    { name: "Metadata", rows: getExportMetadataRows(metadata) },
+  ]);
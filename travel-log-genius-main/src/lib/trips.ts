@@ -0,0 +1,188 @@
+import { format } from "date-fns";
+import { TravelParty } from "./companions";
+import { ValidationFlag } from "./trip-validation";
+import { TripReview } from "./trip-review";
+
+export const transportModes = [
+  "Walking", "Bicycle", "Motorcycle", "Car", "Bus", "Train", "Metro", "Auto Rickshaw", "Taxi", "Other"
+];
+
+export const tripPurposes = [
+  { value: "home", label: "Home" },
+  { value: "work", label: "Work" },
+  { value: "education", label: "Education" },
+  { value: "shopping", label: "Shopping" },
+  { value: "personal_business", label: "Personal Business" },
+  { value: "social_recreation", label: "Social / Recreation" },
+  { value: "escort", label: "Escort (drop-off / pick-up)" },
+  { value: "return_home", label: "Return Home" },
+  { value: "other", label: "Other" },
+];
+
+// Falls back to the participant's own wording for "other"
+export const formatPurpose = (purpose?: string, purposeOther?: string) => {
+  if (!purpose) return "";
+  if (purpose === "other" && purposeOther) return `Other: ${purposeOther}`;
+  return tripPurposes.find(p => p.value === purpose)?.label ?? purpose;
+};
+
+// Higher rank wins when picking the main mode of a multi-leg trip
+const modeHierarchy: Record<string, number> = {
+  train: 9,
+  metro: 8,
+  bus: 7,
+  car: 6,
+  taxi: 5,
+  "auto rickshaw": 4,
+  motorcycle: 3,
+  bicycle: 2,
+  other: 1,
+  walking: 0,
+};
+
+export interface TripLeg {
+  id?: string;
+  trip_id?: string | number;
+  leg_number: number;
+  mode: string;
+  origin?: string;
+  destination?: string;
+  start_time?: string;
+  end_time?: string;
+  wait_minutes?: number;
+}
+
+export interface TripRecord {
+  id: string;
+  client_id?: string;
+  user_id?: string;
+  trip_number?: string;
+  origin: string;
+  destination: string;
+  origin_lat?: number;
+  origin_lon?: number;
+  destination_lat?: number;
+  destination_lon?: number;
+  origin_place_id?: string;
+  destination_place_id?: string;
+  // Districts the ends were placed in when the trip was saved
+  origin_district?: string | null;
+  destination_district?: string | null;
+  // Traffic analysis zones the ends fall in, see zone-system.ts
+  origin_zone_id?: string | null;
+  destination_zone_id?: string | null;
+  route_polyline?: string;
+  route_distance_km?: number;
+  mode: string;
+  start_time?: string;
+  end_time?: string;
+  companions?: string;
+  party?: TravelParty | null;
+  validation_flags?: ValidationFlag[] | null;
+  // Embedded review row; only ever read through getTripReview
+  trip_reviews?: TripReview | TripReview[] | null;
+  purpose?: string;
+  purpose_other?: string;
+  activity_duration_minutes?: number;
+  access_mode?: string;
+  egress_mode?: string;
+  trip_legs?: TripLeg[];
+  created_at?: string;
+}
+
+export interface TripChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface TripEdit {
+  id?: string;
+  trip_id: string | number;
+  edited_by?: string;
+  action: "update" | "delete";
+  changes: Record<string, TripChange>;
+  edited_at: string;
+}
+
+// Form-side shape of a leg; every field is kept as a string while editing
+export interface TripLegDraft {
+  mode: string;
+  origin: string;
+  destination: string;
+  start_time: string;
+  end_time: string;
+  wait_minutes: string;
+  // The instants the times were filled from, if they came from a saved or detected trip
+  exact_times?: ExactTimes;
+}
+
+export interface ExactTimes {
+  start: string | null;
+  end: string | null;
+}
+
+export const emptyLeg = (): TripLegDraft => ({
+  mode: "",
+  origin: "",
+  destination: "",
+  start_time: "",
+  end_time: "",
+  wait_minutes: ""
+});
+
+export const formatMode = (mode: string) => mode.charAt(0).toUpperCase() + mode.slice(1);
+
+const legDuration = (leg: TripLeg) => {
+  if (!leg.start_time || !leg.end_time) return 0;
+  return new Date(leg.end_time).getTime() - new Date(leg.start_time).getTime();
+};
+
+export const getMainLegIndex = (legs: TripLeg[]) => {
+  let best = -1;
+  legs.forEach((leg, index) => {
+    if (!leg.mode) return;
+    if (best === -1) {
+      best = index;
+      return;
+    }
+    const rank = modeHierarchy[leg.mode] ?? 1;
+    const bestRank = modeHierarchy[legs[best].mode] ?? 1;
+    if (rank > bestRank || (rank === bestRank && legDuration(leg) > legDuration(legs[best]))) {
+      best = index;
+    }
+  });
+  return best;
+};
+
+// Splits a leg chain into the main mode and the access/egress modes either side of it
+export const getModeSplit = (legs: TripLeg[]) => {
+  const sorted = [...legs].sort((a, b) => a.leg_number - b.leg_number);
+  const mainIndex = getMainLegIndex(sorted);
+  if (mainIndex === -1) {
+    return { mainMode: "", accessMode: null, egressMode: null };
+  }
+
+  return {
+    mainMode: sorted[mainIndex].mode,
+    accessMode: mainIndex > 0 ? sorted[0].mode : null,
+    egressMode: mainIndex < sorted.length - 1 ? sorted[sorted.length - 1].mode : null,
+  };
+};
+
+export const sortLegs = (legs?: TripLeg[]) =>
+  [...(legs || [])].sort((a, b) => a.leg_number - b.leg_number);
+
+// Server timestamps come back with an offset; datetime-local inputs want local wall-clock time
+export const toDateTimeInput = (value?: string | number | Date | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+
+// The way back: the input's wall-clock time is read in the device's time zone and saved as an instant.
+// While the input still shows the instant it was filled from, that instant is kept to the second.
+export const fromDateTimeInput = (value?: string | null, filledFrom?: string | null) => {
+  if (!value) return null;
+  if (filledFrom && toDateTimeInput(filledFrom) === value) return new Date(filledFrom).toISOString();
+  return new Date(value).toISOString();
+};
+
+// Round-trip check: a saved instant must show in the input exactly as the participant left it
+export const isTimeShifted = (input: string, saved: string | null) => !!input && toDateTimeInput(saved) !== input;
@@ -0,0 +1,199 @@
+import { supabase } from "./supabase";
+import { STUDY_AREA_BOUNDS } from "./geo";
+import { canManageZones, fetchUserRole } from "./roles";
+
+// GeoJSON positions are [longitude, latitude]
+type Ring = number[][];
+
+export type ZoneGeometry =
+  | { type: "Polygon"; coordinates: Ring[] }
+  | { type: "MultiPolygon"; coordinates: Ring[][] };
+
+// One traffic analysis zone; zone_id is whatever code the uploaded file uses, e.g. "TVM-014".
+// Boundaries stay in the database, which assigns trips to zones, so listings never download them.
+export interface TrafficZone {
+  zone_id: string;
+  name: string;
+  updated_at?: string;
+}
+
+export interface ZoneUpload extends TrafficZone {
+  geometry: ZoneGeometry;
+}
+
+// Trip ends in a zone across the current research selection, see research_trip_summary
+export interface ZoneCount {
+  zone_id: string;
+  origins: number;
+  destinations: number;
+}
+
+const adminOnly = {
+  data: null,
+  error: { code: '42501', message: "Only administrators can change the zone system." }
+};
+
+const isAdmin = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  return !!user && canManageZones(await fetchUserRole(user.id));
+};
+
+const getPolygons = (geometry: ZoneGeometry) =>
+  geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+
+// Uploads
+
+export interface ZoneFeature {
+  properties: Record<string, unknown>;
+  geometry: ZoneGeometry;
+}
+
+export interface ZoneFile {
+  features: ZoneFeature[];
+  propertyKeys: string[];
+  // Points, lines and empty geometries cannot contain a trip end
+  skipped: number;
+}
+
+const isPosition = (value: unknown) =>
+  Array.isArray(value) && value.length >= 2 && value.every(n => typeof n === "number" && Number.isFinite(n));
+
+const isPolygonCoordinates = (value: unknown) =>
+  Array.isArray(value) && value.length > 0 && value.every(ring => Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition));
+
+const isZoneGeometry = (geometry: { type?: string; coordinates?: unknown } | null): geometry is ZoneGeometry =>
+  geometry?.type === "Polygon"
+    ? isPolygonCoordinates(geometry.coordinates)
+    : geometry?.type === "MultiPolygon" &&
+      Array.isArray(geometry.coordinates) &&
+      geometry.coordinates.length > 0 &&
+      geometry.coordinates.every(isPolygonCoordinates);
+
+export const parseZoneFile = (text: string) => {
+  let json: { type?: string; features?: { properties?: Record<string, unknown> | null; geometry?: { type?: string; coordinates?: unknown } | null }[] };
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { data: null, error: { message: "The file is not valid JSON." } };
+  }
+  if (json?.type !== "FeatureCollection" || !Array.isArray(json.features)) {
+    return { data: null, error: { message: "Expected a GeoJSON FeatureCollection of zone polygons." } };
+  }
+
+  const features: ZoneFeature[] = json.features
+    .filter(feature => isZoneGeometry(feature?.geometry ?? null))
+    .map(feature => ({ properties: feature.properties ?? {}, geometry: feature.geometry as ZoneGeometry }));
+  if (!features.length) {
+    return { data: null, error: { message: "The file contains no Polygon or MultiPolygon features." } };
+  }
+
+  // Projected files (UTM and the like) have coordinates far outside the degree range
+  const projected = features.some(feature =>
+    getPolygons(feature.geometry).some(rings => rings.some(ring => ring.some(([lon, lat]) => Math.abs(lon) > 180 || Math.abs(lat) > 90)))
+  );
+  if (projected) {
+    return { data: null, error: { message: "Coordinates must be WGS84 longitude/latitude (EPSG:4326). Reproject the file and upload it again." } };
+  }
+
+  const propertyKeys = Array.from(new Set(features.flatMap(feature => Object.keys(feature.properties)))).filter(Boolean);
+  return { data: { features, propertyKeys, skipped: json.features.length - features.length } as ZoneFile, error: null };
+};
+
+// Guesses the ID and name fields from the usual attribute names in zone shapefiles
+export const guessZoneProperty = (keys: string[], kind: "id" | "name") => {
+  const candidates = kind === "id"
+    ? ["zone_id", "zoneid", "taz_id", "tazid", "taz", "zone", "id", "code"]
+    : ["name", "zone_name", "zonename", "taz_name", "label"];
+  return candidates.map(candidate => keys.find(key => key.toLowerCase() === candidate)).find(Boolean) ?? "";
+};
+
+export const buildZones = (file: ZoneFile, idKey: string, nameKey: string) => {
+  const zones = new Map<string, ZoneUpload>();
+  const problems: string[] = [];
+  let missingIds = 0;
+  let merged = 0;
+
+  file.features.forEach(feature => {
+    const zoneId = String(feature.properties[idKey] ?? "").trim();
+    if (!zoneId) {
+      missingIds++;
+      return;
+    }
+
+    // Multipart zones are often exported as several features with the same ID
+    const existing = zones.get(zoneId);
+    if (existing) {
+      existing.geometry = { type: "MultiPolygon", coordinates: [...getPolygons(existing.geometry), ...getPolygons(feature.geometry)] };
+      merged++;
+      return;
+    }
+
+    const name = nameKey ? String(feature.properties[nameKey] ?? "").trim() : "";
+    zones.set(zoneId, { zone_id: zoneId, name: name || zoneId, geometry: feature.geometry });
+  });
+
+  if (file.skipped) problems.push(`${file.skipped} features without a polygon were ignored.`);
+  if (missingIds) problems.push(`${missingIds} polygons have no ${idKey || "zone ID"} and were ignored.`);
+  if (merged) problems.push(`${merged} polygons shared an ID with another and were merged into one zone.`);
+
+  // Usually swapped coordinates or a file for the wrong region
+  const outside = Array.from(zones.values()).filter(zone => !getPolygons(zone.geometry).some(rings => rings[0].some(([lon, lat]) =>
+    lat >= STUDY_AREA_BOUNDS.south && lat <= STUDY_AREA_BOUNDS.north && lon >= STUDY_AREA_BOUNDS.west && lon <= STUDY_AREA_BOUNDS.east
+  )));
+  if (outside.length) problems.push(`${outside.length} zones lie entirely outside the study area.`);
+
+  return { zones: Array.from(zones.values()), problems };
+};
+
+export const formatZone = (zoneId: string | null | undefined, zoneNames: Map<string, string>) => {
+  if (!zoneId) return "Unassigned";
+  const name = zoneNames.get(zoneId);
+  return name && name !== zoneId ? `${zoneId} · ${name}` : zoneId;
+};
+
+// Storage
+
+// PostgREST caps a single response, so zones are read in batches of this size
+const BATCH_SIZE = 1000;
+
+export const fetchZones = async () => {
+  const zones: TrafficZone[] = [];
+  for (let from = 0; ; from += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('zones')
+      .select('zone_id, name, updated_at')
+      .order('zone_id')
+      .range(from, from + BATCH_SIZE - 1);
+    if (error) return { data: null, error };
+    zones.push(...data);
+    if (data.length < BATCH_SIZE) return { data: zones, error: null };
+  }
+};
+
+export interface ZoneAssignmentResult {
+  checked: number;
+  updated: number;
+  // Trip ends with no location or outside every zone
+  unassignedEnds: number;
+}
+
+// Swaps the whole zone system and re-zones every trip in one transaction; if anything fails nothing changes
+export const replaceZones = async (zones: ZoneUpload[]) => {
+  if (!(await isAdmin())) return adminOnly;
+
+  const { data, error } = await supabase.rpc('replace_zones', {
+    p_zones: zones.map(({ zone_id, name, geometry }) => ({ zone_id, name, geometry }))
+  });
+  if (error) return { data: null, error };
+  return { data: data as ZoneAssignmentResult, error: null };
+};
+
+// Re-zones every trip against the current boundaries in a single set-based update. New and edited trips
+// are zoned by a trigger as they are saved, so this is only needed to repair data.
+export const reassignTripZones = async () => {
+  if (!(await isAdmin())) return adminOnly;
+
+  const { data, error } = await supabase.rpc('assign_trip_zones');
+  if (error) return { data: null, error };
+  return { data: data as ZoneAssignmentResult, error: null };
+};
@@ -1,16 +1,38 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { AuthPage } from "@/components/AuthPage";
 import { ConsentPage } from "@/components/ConsentPage";
 import { Dashboard } from "@/components/Dashboard";
 import { ScientistDashboard } from "@/components/ScientistDashboard";
 import { Navigation } from "@/components/Navigation";
 import { supabase } from "@/lib/supabase";
+import { UserRole, canAccessResearch, fetchUserRole } from "@/lib/roles";
+import { ConsentStatus, fetchConsentStatus } from "@/lib/consent";
+import { fetchHouseholdProfile, isHouseholdComplete } from "@/lib/household";
+import { HouseholdQuestionnaire } from "@/components/HouseholdQuestionnaire";
+import { Button } from "@/components/ui/button";
+import { RefreshCw } from "lucide-react";
+
+const LookupFailed = ({ message, isRetrying, onRetry }: { message: string; isRetrying: boolean; onRetry: () => void }) => (
+  <div className="min-h-screen bg-gradient-subtle flex items-center justify-center p-4">
+    <div className="text-center space-y-4 max-w-sm">
+      <p className="text-muted-foreground">{message}</p>
+      <Button onClick={onRetry} disabled={isRetrying}>
+        <RefreshCw className={`w-4 h-4 mr-2 ${isRetrying ? "animate-spin" : ""}`} />
+        Try Again
+      </Button>
+    </div>
+  </div>
+);
 
 const Index = () => {
   const [user, setUser] = useState<any>(null);
-  const [hasConsented, setHasConsented] = useState(false);
+  const [consentStatus, setConsentStatus] = useState<ConsentStatus | null>(null);
+  const [householdComplete, setHouseholdComplete] = useState<boolean | null>(null);
   const [currentView, setCurrentView] = useState<'user' | 'scientist'>('user');
+  const [role, setRole] = useState<UserRole | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [roleLookupFailed, setRoleLookupFailed] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
 
   useEffect(() => {
     // Get initial session
@@ -24,7 +46,8 @@ const Index = () => {
       (event, session) => {
         setUser(session?.user ?? null);
         if (event === 'SIGNED_OUT') {
-          setHasConsented(false);
+          setConsentStatus(null);
+          setCurrentView('user');
         }
       }
     );
@@ -32,7 +55,64 @@ const Index = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  if (isLoading) {
+  useEffect(() => {
+    if (!user?.id) {
+      setRole(null);
+      setRoleLookupFailed(false);
+      setConsentStatus(null);
+      return;
+    }
+    fetchUserRole(user.id).then(loaded => {
+      setRole(loaded);
+      setRoleLookupFailed(loaded === null);
+    });
+    fetchConsentStatus(user.id).then(setConsentStatus);
+  }, [user?.id]);
+
+  const retryRoleLookup = useCallback(async () => {
+    if (!user?.id) return;
+    setIsRetrying(true);
+    const loaded = await fetchUserRole(user.id);
+    setRole(loaded);
+    setRoleLookupFailed(loaded === null);
+    setIsRetrying(false);
+  }, [user?.id]);
+
+  const retryConsentLookup = useCallback(async () => {
+    if (!user?.id) return;
+    setIsRetrying(true);
+    setConsentStatus(await fetchConsentStatus(user.id));
+    setIsRetrying(false);
+  }, [user?.id]);
+
+  // Only a confirmed answer allows recording; an unconfirmed one (lookup failed, nothing cached) waits for a retry
+  const hasConsent = consentStatus === 'current';
+  const hasResearchAccess = canAccessResearch(role);
+  // Researchers and admins are not survey households, so they are never asked the household questions
+  const needsHousehold = hasConsent && role !== null && !hasResearchAccess;
+
+  useEffect(() => {
+    if (!user?.id || !needsHousehold) {
+      setHouseholdComplete(null);
+      return;
+    }
+    fetchHouseholdProfile(user.id).then(({ data, error }) => {
+      // A failed lookup (e.g. offline) should not lock the participant out of recording trips
+      if (error) console.error('Household profile lookup error:', error);
+      setHouseholdComplete(!!error || isHouseholdComplete(data));
+    });
+  }, [user?.id, needsHousehold]);
+
+  const handleConsentWithdrawn = () => {
+    setCurrentView('user');
+    setConsentStatus('withdrawn');
+  };
+
+  if (
+    isLoading ||
+    (user && (consentStatus === null || (role === null && !roleLookupFailed))) ||
+    (needsHousehold && householdComplete === null)
+  ) {
     return (
       <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
         <div className="text-center">
@@ -53,16 +133,57 @@ const Index = () => {
       }} />;
     }
 
-  // Authenticated but no consent - show consent page
-  if (!hasConsented) {
-    return <ConsentPage onConsentGiven={() => setHasConsented(true)} />;
+  // Which screens apply depends on the role, so nothing is shown until it is known
+  if (roleLookupFailed) {
+    return (
+      <LookupFailed
+        message="We could not load your account. Please check your connection and try again."
+        isRetrying={isRetrying}
+        onRetry={retryRoleLookup}
+      />
+    );
+  }
+
+  // The consent lookup failed and this device has no earlier answer, so nothing may be recorded until it succeeds
+  if (consentStatus === 'unknown' && !hasResearchAccess) {
+    return (
+      <LookupFailed
+        message="We could not confirm your consent to take part. Please check your connection and try again."
+        isRetrying={isRetrying}
+        onRetry={retryConsentLookup}
+      />
+    );
+  }
+
+  // Authenticated but no current consent - show consent page. Researchers and admins never record trips as
+  // participants, so they go straight to their dashboard.
+  if (!hasConsent && !hasResearchAccess) {
+    return (
+      <ConsentPage
+        previousStatus={consentStatus}
+        onConsentGiven={() => setConsentStatus('current')}
+      />
+    );
+  }
+
+  // Consented but household questions not answered yet
+  if (needsHousehold && !householdComplete) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle p-4">
+        <div className="max-w-2xl mx-auto py-8">
+          <HouseholdQuestionnaire userId={user.id} onSaved={() => setHouseholdComplete(true)} />
+        </div>
+      </div>
+    );
   }
 
-  // Authenticated and consented - show main app
+  // Authenticated and consented - show main app. Without consent only the research dashboard is available.
   return (
     <>
-      {currentView === 'user' ? <Dashboard /> : <ScientistDashboard />}
-      <Navigation currentView={currentView} onViewChange={setCurrentView} />
+      {(currentView === 'scientist' || !hasConsent) && hasResearchAccess ? <ScientistDashboard role={role} /> : <Dashboard onConsentWithdrawn={handleConsentWithdrawn} />}
+      {hasResearchAccess && hasConsent && (
+        <Navigation currentView={currentView} onViewChange={setCurrentView} />
+      )}
     </>
   );
 };
@@ -0,0 +1,256 @@
+-- Tables the app already uses, so a fresh project can be set up from the migrations alone
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  consent boolean not null default false,
+  consent_version integer,
+  exclude_from_research boolean not null default false,
+  household_size integer,
+  household_members jsonb,
+  vehicles jsonb,
+  income_band text,
+  home_zone text,
+  home_place_id text,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.consent_records (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  version integer not null,
+  consented_at timestamptz not null default now(),
+  withdrawn_at timestamptz
+);
+
+create table if not exists public.trips (
+  id bigint generated by default as identity primary key,
+  client_id text unique,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  trip_number text,
+  origin text not null,
+  destination text not null,
+  origin_lat double precision,
+  origin_lon double precision,
+  destination_lat double precision,
+  destination_lon double precision,
+  origin_place_id text,
+  destination_place_id text,
+  origin_zone_id text,
+  destination_zone_id text,
+  mode text not null,
+  access_mode text,
+  egress_mode text,
+  start_time timestamptz,
+  end_time timestamptz,
+  companions text,
+  party jsonb,
+  purpose text,
+  purpose_other text,
+  activity_duration_minutes integer,
+  route_polyline text,
+  route_distance_km double precision,
+  validation_flags jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create table if not exists public.trip_legs (
+  id uuid primary key default gen_random_uuid(),
+  trip_id bigint not null references public.trips (id) on delete cascade,
+  leg_number integer not null,
+  mode text not null,
+  origin text,
+  destination text,
+  start_time timestamptz,
+  end_time timestamptz,
+  wait_minutes integer,
+  unique (trip_id, leg_number)
+);
+
+create table if not exists public.trip_edits (
+  id uuid primary key default gen_random_uuid(),
+  trip_id bigint not null references public.trips (id) on delete cascade,
+  edited_by uuid references auth.users (id),
+  action text not null check (action in ('update', 'delete')),
+  changes jsonb not null default '{}',
+  edited_at timestamptz not null default now()
+);
+
+create table if not exists public.trip_reviews (
+  id uuid primary key default gen_random_uuid(),
+  trip_id bigint not null unique references public.trips (id) on delete cascade,
+  status text not null default 'pending',
+  manual_flag_reason text,
+  notes jsonb not null default '[]',
+  corrections jsonb not null default '{}',
+  clarification_request text,
+  clarification_response text,
+  clarification_responded_at timestamptz,
+  reviewed_by uuid references auth.users (id),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.diary_days (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  diary_date date not null,
+  status text not null default 'pending',
+  no_travel_reason text,
+  no_travel_reason_other text,
+  responded_at timestamptz
+);
+
+create table if not exists public.zones (
+  zone_id text primary key,
+  name text not null,
+  geometry jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+-- Roles live outside profiles: participants write their own profile row but can never write this table
+create table if not exists public.user_roles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  role text not null check (role in ('researcher', 'admin'))
+);
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'profiles' and column_name = 'role'
+  ) then
+    insert into public.user_roles (user_id, role)
+    select id, role from public.profiles where role in ('researcher', 'admin')
+    on conflict (user_id) do nothing;
+    alter table public.profiles drop column role;
+  end if;
+end $$;
+
+-- Security definer so policies can check roles without tripping over user_roles' own policies
+create or replace function public.is_researcher()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_roles where user_id = auth.uid() and role in ('researcher', 'admin')
+  );
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.user_roles where user_id = auth.uid() and role = 'admin');
+$$;
+
+-- Withdrawn participants stay in the database but are invisible to researchers
+create or replace function public.is_research_visible(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_researcher()
+    and not exists (select 1 from public.profiles where id = p_user_id and exclude_from_research);
+$$;
+
+create or replace function public.owns_trip(p_trip_id bigint)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.trips where id = p_trip_id and user_id = auth.uid());
+$$;
+
+alter table public.profiles enable row level security;
+alter table public.consent_records enable row level security;
+alter table public.trips enable row level security;
+alter table public.trip_legs enable row level security;
+alter table public.trip_edits enable row level security;
+alter table public.trip_reviews enable row level security;
+alter table public.diary_days enable row level security;
+alter table public.zones enable row level security;
+alter table public.user_roles enable row level security;
+
+-- user_roles: read your own role, no client writes at all
+create policy "Read own role" on public.user_roles
+  for select to authenticated using (user_id = auth.uid());
+
+-- profiles
+create policy "Read own profile" on public.profiles
+  for select to authenticated using (id = auth.uid());
+create policy "Researchers read profiles" on public.profiles
+  for select to authenticated using (public.is_researcher());
+create policy "Create own profile" on public.profiles
+  for insert to authenticated with check (id = auth.uid());
+create policy "Update own profile" on public.profiles
+  for update to authenticated using (id = auth.uid()) with check (id = auth.uid());
+
+-- consent_records
+create policy "Read own consent" on public.consent_records
+  for select to authenticated using (user_id = auth.uid());
+create policy "Researchers read consent" on public.consent_records
+  for select to authenticated using (public.is_researcher());
+create policy "Record own consent" on public.consent_records
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Withdraw own consent" on public.consent_records
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- trips
+create policy "Read own trips" on public.trips
+  for select to authenticated using (user_id = auth.uid());
+create policy "Researchers read trips" on public.trips
+  for select to authenticated using (deleted_at is null and public.is_research_visible(user_id));
+create policy "Create own trips" on public.trips
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Update own trips" on public.trips
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- trip_legs follow their trip
+create policy "Read legs of visible trips" on public.trip_legs
+  for select to authenticated using (exists (select 1 from public.trips where trips.id = trip_legs.trip_id));
+create policy "Write legs of own trips" on public.trip_legs
+  for all to authenticated using (public.owns_trip(trip_id)) with check (public.owns_trip(trip_id));
+
+-- trip_edits
+create policy "Read edits of visible trips" on public.trip_edits
+  for select to authenticated using (exists (select 1 from public.trips where trips.id = trip_edits.trip_id));
+create policy "Record edits of own trips" on public.trip_edits
+  for insert to authenticated with check (public.owns_trip(trip_id) and edited_by = auth.uid());
+
+-- trip_reviews: participants see the review of their own trips, researchers manage them
+create policy "Read reviews of visible trips" on public.trip_reviews
+  for select to authenticated using (exists (select 1 from public.trips where trips.id = trip_reviews.trip_id));
+create policy "Researchers create reviews" on public.trip_reviews
+  for insert to authenticated with check (public.is_research_visible((select user_id from public.trips where id = trip_id)));
+create policy "Researchers update reviews" on public.trip_reviews
+  for update to authenticated
+  using (public.is_researcher())
+  with check (public.is_research_visible((select user_id from public.trips where id = trip_id)));
+create policy "Participants answer clarifications" on public.trip_reviews
+  for update to authenticated using (public.owns_trip(trip_id)) with check (public.owns_trip(trip_id));
+
+-- diary_days
+create policy "Read own diary days" on public.diary_days
+  for select to authenticated using (user_id = auth.uid());
+create policy "Researchers read diary days" on public.diary_days
+  for select to authenticated using (public.is_research_visible(user_id));
+create policy "Create own diary days" on public.diary_days
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Answer own diary days" on public.diary_days
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- zones: everyone signed in reads them, only admins replace them
+create policy "Read zones" on public.zones
+  for select to authenticated using (true);
+create policy "Admins manage zones" on public.zones
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
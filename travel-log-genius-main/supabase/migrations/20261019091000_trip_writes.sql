@@ -0,0 +1,202 @@
+-- Participants write trips only through these functions, so a trip and its legs always change together
+-- and every edit or delete lands in trip_edits with the real editor
+drop policy if exists "Create own trips" on public.trips;
+drop policy if exists "Update own trips" on public.trips;
+drop policy if exists "Write legs of own trips" on public.trip_legs;
+drop policy if exists "Record edits of own trips" on public.trip_edits;
+
+-- Fields a participant may set; everything else (ids, owner, timestamps) is managed here
+create or replace function public.trip_editable_fields()
+returns text[]
+language sql
+immutable
+as $$
+  select array[
+    'trip_number', 'origin', 'destination', 'origin_lat', 'origin_lon', 'destination_lat', 'destination_lon',
+    'origin_place_id', 'destination_place_id', 'origin_zone_id', 'destination_zone_id', 'mode', 'access_mode',
+    'egress_mode', 'start_time', 'end_time', 'companions', 'party', 'purpose', 'purpose_other',
+    'activity_duration_minutes', 'route_polyline', 'route_distance_km', 'validation_flags'
+  ];
+$$;
+
+create or replace function public.trip_fields_from(p_trip jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_object_agg(key, value), '{}')
+  from jsonb_each(p_trip)
+  where key = any (public.trip_editable_fields());
+$$;
+
+-- client_id is the idempotency key: replaying a trip that already reached the server returns its id untouched
+create or replace function public.save_trip(p_trip jsonb, p_legs jsonb)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  trip_row public.trips;
+  saved_id bigint;
+begin
+  if auth.uid() is null or (p_trip ->> 'user_id')::uuid is distinct from auth.uid() then
+    raise exception 'Trips can only be saved for yourself' using errcode = '42501';
+  end if;
+
+  select id into saved_id from public.trips where client_id = p_trip ->> 'client_id';
+  if found then
+    if not public.owns_trip(saved_id) then
+      raise exception 'Trip belongs to another participant' using errcode = '42501';
+    end if;
+    return saved_id;
+  end if;
+
+  trip_row := jsonb_populate_record(null::public.trips, public.trip_fields_from(p_trip));
+  insert into public.trips (
+    client_id, user_id, trip_number, origin, destination, origin_lat, origin_lon, destination_lat, destination_lon,
+    origin_place_id, destination_place_id, origin_zone_id, destination_zone_id, mode, access_mode, egress_mode,
+    start_time, end_time, companions, party, purpose, purpose_other, activity_duration_minutes, route_polyline,
+    route_distance_km, validation_flags
+  ) values (
+    p_trip ->> 'client_id', auth.uid(), trip_row.trip_number, trip_row.origin, trip_row.destination,
+    trip_row.origin_lat, trip_row.origin_lon, trip_row.destination_lat, trip_row.destination_lon,
+    trip_row.origin_place_id, trip_row.destination_place_id, trip_row.origin_zone_id, trip_row.destination_zone_id,
+    trip_row.mode, trip_row.access_mode, trip_row.egress_mode, trip_row.start_time, trip_row.end_time,
+    trip_row.companions, trip_row.party, trip_row.purpose, trip_row.purpose_other, trip_row.activity_duration_minutes,
+    trip_row.route_polyline, trip_row.route_distance_km, trip_row.validation_flags
+  )
+  returning id into saved_id;
+
+  insert into public.trip_legs (trip_id, leg_number, mode, origin, destination, start_time, end_time, wait_minutes)
+  select saved_id, leg_number, mode, origin, destination, start_time, end_time, wait_minutes
+  from jsonb_populate_recordset(null::public.trip_legs, coalesce(p_legs, '[]'));
+
+  return saved_id;
+end;
+$$;
+
+-- Leg comparison ignores ids and treats blank text as missing, like the form does
+create or replace function public.trip_leg_signature(p_legs jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_agg(
+    jsonb_build_array(mode, nullif(origin, ''), nullif(destination, ''), start_time, end_time, wait_minutes)
+    order by leg_number
+  ), '[]')
+  from jsonb_populate_recordset(null::public.trip_legs, coalesce(p_legs, '[]'));
+$$;
+
+create or replace function public.update_trip(p_trip_id bigint, p_trip jsonb, p_legs jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  before_row public.trips;
+  after_row public.trips;
+  before_json jsonb;
+  after_json jsonb;
+  before_legs jsonb;
+  changes jsonb := '{}';
+  field text;
+begin
+  select * into before_row from public.trips
+  where id = p_trip_id and user_id = auth.uid() and deleted_at is null
+  for update;
+  if not found then
+    raise exception 'Trip % not found', p_trip_id using errcode = '42501';
+  end if;
+
+  after_row := jsonb_populate_record(before_row, public.trip_fields_from(p_trip));
+  before_json := to_jsonb(before_row);
+  after_json := to_jsonb(after_row);
+
+  -- Validation flags and zones are derived from the other fields, so they are not an edit in their own right
+  foreach field in array public.trip_editable_fields() loop
+    continue when field in ('validation_flags', 'origin_zone_id', 'destination_zone_id');
+    if before_json -> field is distinct from after_json -> field then
+      changes := changes || jsonb_build_object(field, jsonb_build_object('from', before_json -> field, 'to', after_json -> field));
+    end if;
+  end loop;
+
+  select coalesce(jsonb_agg(to_jsonb(l) order by l.leg_number), '[]') into before_legs
+  from public.trip_legs l where l.trip_id = p_trip_id;
+  if public.trip_leg_signature(before_legs) is distinct from public.trip_leg_signature(p_legs) then
+    changes := changes || jsonb_build_object('legs', jsonb_build_object('from', before_legs, 'to', coalesce(p_legs, '[]')));
+  end if;
+
+  if changes = '{}' then
+    return;
+  end if;
+
+  update public.trips set
+    trip_number = after_row.trip_number,
+    origin = after_row.origin,
+    destination = after_row.destination,
+    origin_lat = after_row.origin_lat,
+    origin_lon = after_row.origin_lon,
+    destination_lat = after_row.destination_lat,
+    destination_lon = after_row.destination_lon,
+    origin_place_id = after_row.origin_place_id,
+    destination_place_id = after_row.destination_place_id,
+    origin_zone_id = after_row.origin_zone_id,
+    destination_zone_id = after_row.destination_zone_id,
+    mode = after_row.mode,
+    access_mode = after_row.access_mode,
+    egress_mode = after_row.egress_mode,
+    start_time = after_row.start_time,
+    end_time = after_row.end_time,
+    companions = after_row.companions,
+    party = after_row.party,
+    purpose = after_row.purpose,
+    purpose_other = after_row.purpose_other,
+    activity_duration_minutes = after_row.activity_duration_minutes,
+    route_polyline = after_row.route_polyline,
+    route_distance_km = after_row.route_distance_km,
+    validation_flags = after_row.validation_flags,
+    updated_at = now()
+  where id = p_trip_id;
+
+  if changes ? 'legs' then
+    delete from public.trip_legs where trip_id = p_trip_id;
+    insert into public.trip_legs (trip_id, leg_number, mode, origin, destination, start_time, end_time, wait_minutes)
+    select p_trip_id, leg_number, mode, origin, destination, start_time, end_time, wait_minutes
+    from jsonb_populate_recordset(null::public.trip_legs, coalesce(p_legs, '[]'));
+  end if;
+
+  insert into public.trip_edits (trip_id, edited_by, action, changes, edited_at)
+  values (p_trip_id, auth.uid(), 'update', changes, now());
+end;
+$$;
+
+-- Soft delete: the row stays for the audit trail but drops out of every listing and export
+create or replace function public.delete_trip(p_trip_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  deleted timestamptz := now();
+begin
+  update public.trips set deleted_at = deleted, updated_at = deleted
+  where id = p_trip_id and user_id = auth.uid() and deleted_at is null;
+  if not found then
+    raise exception 'Trip % not found', p_trip_id using errcode = '42501';
+  end if;
+
+  insert into public.trip_edits (trip_id, edited_by, action, changes, edited_at)
+  values (p_trip_id, auth.uid(), 'delete', jsonb_build_object('deleted_at', jsonb_build_object('from', null, 'to', deleted)), deleted);
+end;
+$$;
+
+revoke execute on function public.save_trip(jsonb, jsonb) from public, anon;
+revoke execute on function public.update_trip(bigint, jsonb, jsonb) from public, anon;
+revoke execute on function public.delete_trip(bigint) from public, anon;
+grant execute on function public.save_trip(jsonb, jsonb) to authenticated;
+grant execute on function public.update_trip(bigint, jsonb, jsonb) to authenticated;
+grant execute on function public.delete_trip(bigint) to authenticated;
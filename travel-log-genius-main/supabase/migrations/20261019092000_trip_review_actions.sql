@@ -0,0 +1,170 @@
+-- Review rows change only through these functions. Each one touches just its own columns, so two
+-- researchers working on the same trip append notes and merge corrections instead of overwriting each other.
+drop policy if exists "Researchers create reviews" on public.trip_reviews;
+drop policy if exists "Researchers update reviews" on public.trip_reviews;
+drop policy if exists "Participants answer clarifications" on public.trip_reviews;
+
+-- Creates the review row on first touch; trips only enter the queue flagged
+create or replace function public.start_trip_review(p_trip_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.trips
+    where id = p_trip_id and deleted_at is null and public.is_research_visible(user_id)
+  ) then
+    raise exception 'Trip reviews are only available to researchers' using errcode = '42501';
+  end if;
+
+  insert into public.trip_reviews (trip_id, status) values (p_trip_id, 'flagged')
+  on conflict (trip_id) do nothing;
+end;
+$$;
+
+create or replace function public.flag_trip(p_trip_id bigint, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.start_trip_review(p_trip_id);
+  update public.trip_reviews
+  set status = 'flagged', manual_flag_reason = nullif(p_reason, ''), reviewed_by = auth.uid(), updated_at = now()
+  where trip_id = p_trip_id;
+end;
+$$;
+
+create or replace function public.set_review_status(p_trip_id bigint, p_status text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_status not in ('flagged', 'clarification_requested', 'approved', 'excluded') then
+    raise exception 'Unknown review status %', p_status using errcode = '22023';
+  end if;
+
+  perform public.start_trip_review(p_trip_id);
+  update public.trip_reviews
+  set status = p_status, reviewed_by = auth.uid(), updated_at = now()
+  where trip_id = p_trip_id;
+end;
+$$;
+
+create or replace function public.add_review_note(p_trip_id bigint, p_text text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.start_trip_review(p_trip_id);
+  update public.trip_reviews
+  set notes = notes || jsonb_build_array(jsonb_build_object('author_id', auth.uid(), 'text', p_text, 'created_at', now())),
+      reviewed_by = auth.uid(),
+      updated_at = now()
+  where trip_id = p_trip_id;
+end;
+$$;
+
+-- "from" is always the participant's own value: taken from the trip the first time, kept on later corrections
+create or replace function public.correct_trip_field(p_trip_id bigint, p_field text, p_value jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_field not in ('origin', 'destination', 'mode', 'purpose', 'start_time', 'end_time', 'activity_duration_minutes') then
+    raise exception 'Field % cannot be corrected', p_field using errcode = '22023';
+  end if;
+
+  perform public.start_trip_review(p_trip_id);
+  update public.trip_reviews r
+  set corrections = r.corrections || jsonb_build_object(p_field, jsonb_build_object(
+        'from', coalesce(r.corrections -> p_field -> 'from', to_jsonb(t) -> p_field),
+        'to', p_value,
+        'corrected_by', auth.uid(),
+        'corrected_at', now()
+      )),
+      reviewed_by = auth.uid(),
+      updated_at = now()
+  from public.trips t
+  where r.trip_id = p_trip_id and t.id = p_trip_id;
+end;
+$$;
+
+create or replace function public.revert_correction(p_trip_id bigint, p_field text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.start_trip_review(p_trip_id);
+  update public.trip_reviews
+  set corrections = corrections - p_field, reviewed_by = auth.uid(), updated_at = now()
+  where trip_id = p_trip_id;
+end;
+$$;
+
+create or replace function public.request_clarification(p_trip_id bigint, p_message text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.start_trip_review(p_trip_id);
+  update public.trip_reviews
+  set status = 'clarification_requested',
+      clarification_request = p_message,
+      clarification_response = null,
+      clarification_responded_at = null,
+      reviewed_by = auth.uid(),
+      updated_at = now()
+  where trip_id = p_trip_id;
+end;
+$$;
+
+-- Participant side: only the response columns, only on their own trip, only while a question is open.
+-- Answering sends the trip back to the researchers' queue.
+create or replace function public.respond_to_clarification(p_trip_id bigint, p_response text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.trip_reviews
+  set status = 'flagged',
+      clarification_response = p_response,
+      clarification_responded_at = now(),
+      updated_at = now()
+  where trip_id = p_trip_id and status = 'clarification_requested' and public.owns_trip(p_trip_id);
+  if not found then
+    raise exception 'No open clarification request for trip %', p_trip_id using errcode = '42501';
+  end if;
+end;
+$$;
+
+revoke execute on function public.start_trip_review(bigint) from public, anon, authenticated;
+revoke execute on function public.flag_trip(bigint, text) from public, anon;
+revoke execute on function public.set_review_status(bigint, text) from public, anon;
+revoke execute on function public.add_review_note(bigint, text) from public, anon;
+revoke execute on function public.correct_trip_field(bigint, text, jsonb) from public, anon;
+revoke execute on function public.revert_correction(bigint, text) from public, anon;
+revoke execute on function public.request_clarification(bigint, text) from public, anon;
+revoke execute on function public.respond_to_clarification(bigint, text) from public, anon;
+grant execute on function public.flag_trip(bigint, text) to authenticated;
+grant execute on function public.set_review_status(bigint, text) to authenticated;
+grant execute on function public.add_review_note(bigint, text) to authenticated;
+grant execute on function public.correct_trip_field(bigint, text, jsonb) to authenticated;
+grant execute on function public.revert_correction(bigint, text) to authenticated;
+grant execute on function public.request_clarification(bigint, text) to authenticated;
+grant execute on function public.respond_to_clarification(bigint, text) to authenticated;
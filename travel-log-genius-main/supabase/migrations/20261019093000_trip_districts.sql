@@ -0,0 +1,134 @@
+-- The district each trip end lies in, worked out from the bundled gazetteer when the trip is saved.
+-- The research filter and the map both read these columns, so they always count a trip end the same way.
+alter table public.trips
+  add column if not exists origin_district text,
+  add column if not exists destination_district text;
+
+create index if not exists trips_origin_district_idx on public.trips (origin_district);
+create index if not exists trips_destination_district_idx on public.trips (destination_district);
+
+create or replace function public.trip_editable_fields()
+returns text[]
+language sql
+immutable
+as $$
+  select array[
+    'trip_number', 'origin', 'destination', 'origin_lat', 'origin_lon', 'destination_lat', 'destination_lon',
+    'origin_place_id', 'destination_place_id', 'origin_district', 'destination_district', 'origin_zone_id',
+    'destination_zone_id', 'mode', 'access_mode', 'egress_mode', 'start_time', 'end_time', 'companions', 'party',
+    'purpose', 'purpose_other', 'activity_duration_minutes', 'route_polyline', 'route_distance_km', 'validation_flags'
+  ];
+$$;
+
+-- Worked out from the other fields, so changing them is not an edit in its own right
+create or replace function public.trip_derived_fields()
+returns text[]
+language sql
+immutable
+as $$
+  select array['validation_flags', 'origin_district', 'destination_district', 'origin_zone_id', 'destination_zone_id'];
+$$;
+
+create or replace function public.trip_field_list()
+returns text
+language sql
+immutable
+as $$
+  select string_agg(quote_ident(field), ', ') from unnest(public.trip_editable_fields()) field;
+$$;
+
+-- Same behaviour as before; the column lists now come from trip_editable_fields so new fields are added in one place
+create or replace function public.save_trip(p_trip jsonb, p_legs jsonb)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  saved_id bigint;
+begin
+  if auth.uid() is null or (p_trip ->> 'user_id')::uuid is distinct from auth.uid() then
+    raise exception 'Trips can only be saved for yourself' using errcode = '42501';
+  end if;
+
+  select id into saved_id from public.trips where client_id = p_trip ->> 'client_id';
+  if found then
+    if not public.owns_trip(saved_id) then
+      raise exception 'Trip belongs to another participant' using errcode = '42501';
+    end if;
+    return saved_id;
+  end if;
+
+  execute format(
+    'insert into public.trips (client_id, user_id, %1$s) select $1, $2, %1$s from jsonb_populate_record(null::public.trips, $3) returning id',
+    public.trip_field_list()
+  )
+  into saved_id
+  using p_trip ->> 'client_id', auth.uid(), public.trip_fields_from(p_trip);
+
+  insert into public.trip_legs (trip_id, leg_number, mode, origin, destination, start_time, end_time, wait_minutes)
+  select saved_id, leg_number, mode, origin, destination, start_time, end_time, wait_minutes
+  from jsonb_populate_recordset(null::public.trip_legs, coalesce(p_legs, '[]'));
+
+  return saved_id;
+end;
+$$;
+
+create or replace function public.update_trip(p_trip_id bigint, p_trip jsonb, p_legs jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  before_row public.trips;
+  before_json jsonb;
+  after_json jsonb;
+  before_legs jsonb;
+  changes jsonb := '{}';
+  field text;
+begin
+  select * into before_row from public.trips
+  where id = p_trip_id and user_id = auth.uid() and deleted_at is null
+  for update;
+  if not found then
+    raise exception 'Trip % not found', p_trip_id using errcode = '42501';
+  end if;
+
+  before_json := to_jsonb(before_row);
+  after_json := to_jsonb(jsonb_populate_record(before_row, public.trip_fields_from(p_trip)));
+
+  foreach field in array public.trip_editable_fields() loop
+    continue when field = any (public.trip_derived_fields());
+    if before_json -> field is distinct from after_json -> field then
+      changes := changes || jsonb_build_object(field, jsonb_build_object('from', before_json -> field, 'to', after_json -> field));
+    end if;
+  end loop;
+
+  select coalesce(jsonb_agg(to_jsonb(l) order by l.leg_number), '[]') into before_legs
+  from public.trip_legs l where l.trip_id = p_trip_id;
+  if public.trip_leg_signature(before_legs) is distinct from public.trip_leg_signature(p_legs) then
+    changes := changes || jsonb_build_object('legs', jsonb_build_object('from', before_legs, 'to', coalesce(p_legs, '[]')));
+  end if;
+
+  if changes = '{}' then
+    return;
+  end if;
+
+  execute format(
+    'update public.trips set (%1$s, updated_at) = (select %1$s, now() from jsonb_populate_record(null::public.trips, $1)) where id = $2',
+    public.trip_field_list()
+  )
+  using after_json, p_trip_id;
+
+  if changes ? 'legs' then
+    delete from public.trip_legs where trip_id = p_trip_id;
+    insert into public.trip_legs (trip_id, leg_number, mode, origin, destination, start_time, end_time, wait_minutes)
+    select p_trip_id, leg_number, mode, origin, destination, start_time, end_time, wait_minutes
+    from jsonb_populate_recordset(null::public.trip_legs, coalesce(p_legs, '[]'));
+  end if;
+
+  insert into public.trip_edits (trip_id, edited_by, action, changes, edited_at)
+  values (p_trip_id, auth.uid(), 'update', changes, now());
+end;
+$$;
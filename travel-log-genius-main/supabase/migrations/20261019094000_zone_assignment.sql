@@ -0,0 +1,149 @@
+-- Zones are assigned in the database: a trigger zones each trip as it is saved, and replacing the zone
+-- system re-zones every trip in the same transaction, so no trip ever mixes old and new zone IDs
+create extension if not exists postgis with schema extensions;
+
+alter table public.zones
+  alter column geometry type extensions.geometry(MultiPolygon, 4326)
+  using extensions.ST_Multi(extensions.ST_SetSRID(extensions.ST_GeomFromGeoJSON(geometry::text), 4326));
+
+create index if not exists zones_geometry_idx on public.zones using gist (geometry);
+
+-- Overlapping zones are a data error; the first one in zone ID order wins so the result is at least stable
+create or replace function public.trip_end_zone(p_lat double precision, p_lon double precision)
+returns text
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select zone_id from public.zones
+  where p_lat is not null and p_lon is not null
+    and ST_Covers(geometry, ST_SetSRID(ST_MakePoint(p_lon, p_lat), 4326))
+  order by zone_id
+  limit 1;
+$$;
+
+create or replace function public.assign_trip_zones_on_save()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.origin_zone_id := public.trip_end_zone(new.origin_lat, new.origin_lon);
+  new.destination_zone_id := public.trip_end_zone(new.destination_lat, new.destination_lon);
+  return new;
+end;
+$$;
+
+drop trigger if exists trips_assign_zones on public.trips;
+create trigger trips_assign_zones
+  before insert or update of origin_lat, origin_lon, destination_lat, destination_lon on public.trips
+  for each row execute function public.assign_trip_zones_on_save();
+
+-- Zone IDs are now set by the trigger only, so they leave the participant-editable fields
+create or replace function public.trip_editable_fields()
+returns text[]
+language sql
+immutable
+as $$
+  select array[
+    'trip_number', 'origin', 'destination', 'origin_lat', 'origin_lon', 'destination_lat', 'destination_lon',
+    'origin_place_id', 'destination_place_id', 'origin_district', 'destination_district', 'mode', 'access_mode',
+    'egress_mode', 'start_time', 'end_time', 'companions', 'party', 'purpose', 'purpose_other',
+    'activity_duration_minutes', 'route_polyline', 'route_distance_km', 'validation_flags'
+  ];
+$$;
+
+create or replace function public.trip_derived_fields()
+returns text[]
+language sql
+immutable
+as $$
+  select array['validation_flags', 'origin_district', 'destination_district'];
+$$;
+
+-- One set-based pass over every trip; only rows whose zones change are written
+create or replace function public.rezone_trips()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  updated integer;
+  result jsonb;
+begin
+  with assigned as (
+    select id,
+      public.trip_end_zone(origin_lat, origin_lon) as origin_zone,
+      public.trip_end_zone(destination_lat, destination_lon) as destination_zone
+    from public.trips
+    where deleted_at is null
+  )
+  update public.trips t
+  set origin_zone_id = a.origin_zone, destination_zone_id = a.destination_zone
+  from assigned a
+  where t.id = a.id
+    and (t.origin_zone_id is distinct from a.origin_zone or t.destination_zone_id is distinct from a.destination_zone);
+  get diagnostics updated = row_count;
+
+  select jsonb_build_object(
+    'checked', count(*),
+    'updated', updated,
+    'unassignedEnds', count(*) filter (where origin_zone_id is null) + count(*) filter (where destination_zone_id is null)
+  )
+  into result
+  from public.trips
+  where deleted_at is null;
+  return result;
+end;
+$$;
+
+create or replace function public.assign_trip_zones()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only administrators can change the zone system' using errcode = '42501';
+  end if;
+  return public.rezone_trips();
+end;
+$$;
+
+-- p_zones is [{ zone_id, name, geometry }] with GeoJSON Polygon or MultiPolygon geometries in WGS84.
+-- Either the new zones and the re-zoned trips are all saved, or nothing changes.
+create or replace function public.replace_zones(p_zones jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only administrators can change the zone system' using errcode = '42501';
+  end if;
+
+  delete from public.zones where true;
+  insert into public.zones (zone_id, name, geometry, updated_at)
+  select zone ->> 'zone_id',
+    coalesce(nullif(zone ->> 'name', ''), zone ->> 'zone_id'),
+    ST_Multi(ST_SetSRID(ST_GeomFromGeoJSON((zone -> 'geometry')::text), 4326)),
+    now()
+  from jsonb_array_elements(p_zones) zone;
+
+  return public.rezone_trips();
+end;
+$$;
+
+drop policy if exists "Admins manage zones" on public.zones;
+
+revoke execute on function public.rezone_trips() from public, anon, authenticated;
+revoke execute on function public.assign_trip_zones() from public, anon;
+revoke execute on function public.replace_zones(jsonb) from public, anon;
+grant execute on function public.assign_trip_zones() to authenticated;
+grant execute on function public.replace_zones(jsonb) to authenticated;
+
+-- Bring trips zoned in the browser in line with the database's own assignment
+select public.rezone_trips();
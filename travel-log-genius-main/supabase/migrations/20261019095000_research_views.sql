@@ -0,0 +1,401 @@
+-- Research reads go through research_trips: reviewer corrections already applied, the review status and the
+-- participant's household as columns, and withdrawn participants and deleted trips left out. Filtering,
+-- sorting and every aggregate work on the same corrected values the dashboard shows.
+create or replace view public.research_trips
+with (security_invoker = true)
+as
+select
+  t.id,
+  t.client_id,
+  t.user_id,
+  t.trip_number,
+  case when r.corrections ? 'origin' then r.corrections -> 'origin' ->> 'to' else t.origin end as origin,
+  case when r.corrections ? 'destination' then r.corrections -> 'destination' ->> 'to' else t.destination end as destination,
+  t.origin_lat,
+  t.origin_lon,
+  t.destination_lat,
+  t.destination_lon,
+  t.origin_place_id,
+  t.destination_place_id,
+  t.origin_district,
+  t.destination_district,
+  t.origin_zone_id,
+  t.destination_zone_id,
+  case when r.corrections ? 'mode' then r.corrections -> 'mode' ->> 'to' else t.mode end as mode,
+  t.access_mode,
+  t.egress_mode,
+  case when r.corrections ? 'start_time' then (r.corrections -> 'start_time' ->> 'to')::timestamptz else t.start_time end as start_time,
+  case when r.corrections ? 'end_time' then (r.corrections -> 'end_time' ->> 'to')::timestamptz else t.end_time end as end_time,
+  t.companions,
+  t.party,
+  case when r.corrections ? 'purpose' then r.corrections -> 'purpose' ->> 'to' else t.purpose end as purpose,
+  t.purpose_other,
+  case when r.corrections ? 'activity_duration_minutes'
+    then (r.corrections -> 'activity_duration_minutes' ->> 'to')::numeric::integer
+    else t.activity_duration_minutes
+  end as activity_duration_minutes,
+  t.route_polyline,
+  t.route_distance_km,
+  t.validation_flags,
+  t.created_at,
+  t.updated_at,
+  -- Trips failing an automated check are in the review queue even before anyone has looked at them
+  coalesce(r.status, case when t.validation_flags is not null then 'flagged' end) as review_status,
+  -- Household answers, null until the participant has completed the questionnaire
+  case when p.household_size > 0 then p.household_size end as household_size,
+  case when p.household_size > 0 then p.household_members end as household_members,
+  case when p.household_size > 0 then p.vehicles end as household_vehicles,
+  case when p.household_size > 0 then p.income_band end as household_income_band,
+  case when p.household_size > 0 then p.home_zone end as household_home_zone,
+  case when p.household_size > 0 then p.home_place_id end as household_home_place_id
+from public.trips t
+left join public.trip_reviews r on r.trip_id = t.id
+left join public.profiles p on p.id = t.user_id
+where t.deleted_at is null
+  and not coalesce(p.exclude_from_research, false);
+
+-- Household filters shared by trips and diary days. Participants who have not answered drop out of them.
+create or replace function public.research_household_matches(
+  p_household_size integer,
+  p_members jsonb,
+  p_vehicles jsonb,
+  p_income_band text,
+  p_home_zone text,
+  p_filters jsonb
+)
+returns boolean
+language sql
+immutable
+as $$
+  select
+    (coalesce(p_filters ->> 'income', 'all') = 'all' or p_income_band = p_filters ->> 'income')
+    and (coalesce(p_filters ->> 'homeZone', 'all') = 'all' or p_home_zone = p_filters ->> 'homeZone')
+    and (coalesce(p_filters ->> 'age', 'all') = 'all' or p_members -> 0 ->> 'age_band' = p_filters ->> 'age')
+    and (
+      coalesce(p_filters ->> 'vehicle', 'all') = 'all'
+      or (
+        p_household_size > 0
+        and case
+          when p_filters ->> 'vehicle' = 'none' then
+            coalesce((p_vehicles ->> 'car')::numeric, 0) = 0
+            and coalesce((p_vehicles ->> 'motorcycle')::numeric, 0) = 0
+            and coalesce((p_vehicles ->> 'auto_rickshaw')::numeric, 0) = 0
+          else coalesce((p_vehicles ->> (p_filters ->> 'vehicle'))::numeric, 0) > 0
+        end
+      )
+    );
+$$;
+
+-- p_filters mirrors ResearchFilters in research-query.ts, plus searchPlaceIds: the gazetteer places whose
+-- names match the search, so trips recorded under another spelling are found too
+create or replace function public.research_trip_matches(p_filters jsonb)
+returns setof public.research_trips
+language sql
+stable
+as $$
+  select t.*
+  from public.research_trips t
+  where (
+      coalesce(p_filters ->> 'search', '') = ''
+      or t.origin ilike '%' || (p_filters ->> 'search') || '%'
+      or t.destination ilike '%' || (p_filters ->> 'search') || '%'
+      or t.origin_place_id in (select jsonb_array_elements_text(coalesce(p_filters -> 'searchPlaceIds', '[]')))
+      or t.destination_place_id in (select jsonb_array_elements_text(coalesce(p_filters -> 'searchPlaceIds', '[]')))
+    )
+    and (
+      coalesce(p_filters ->> 'zone', 'all') = 'all'
+      or t.origin_district = p_filters ->> 'zone'
+      or t.destination_district = p_filters ->> 'zone'
+    )
+    and (
+      coalesce(p_filters ->> 'originZone', 'all') = 'all'
+      or (p_filters ->> 'originZone' = 'unassigned' and t.origin_zone_id is null)
+      or t.origin_zone_id = p_filters ->> 'originZone'
+    )
+    and (
+      coalesce(p_filters ->> 'destinationZone', 'all') = 'all'
+      or (p_filters ->> 'destinationZone' = 'unassigned' and t.destination_zone_id is null)
+      or t.destination_zone_id = p_filters ->> 'destinationZone'
+    )
+    and (coalesce(p_filters ->> 'mode', 'all') = 'all' or t.mode = p_filters ->> 'mode')
+    and (coalesce(p_filters ->> 'purpose', 'all') = 'all' or t.purpose = p_filters ->> 'purpose')
+    and case coalesce(p_filters ->> 'flag', 'all')
+      when 'all' then true
+      when 'flagged' then t.validation_flags is not null
+      when 'unflagged' then t.validation_flags is null
+      else coalesce(t.validation_flags @> jsonb_build_array(jsonb_build_object('rule', p_filters ->> 'flag')), false)
+    end
+    and case coalesce(p_filters ->> 'review', 'included')
+      when 'all' then true
+      when 'included' then t.review_status is distinct from 'excluded'
+      else t.review_status = p_filters ->> 'review'
+    end
+    and public.research_household_matches(
+      t.household_size, t.household_members, t.household_vehicles, t.household_income_band, t.household_home_zone, p_filters
+    );
+$$;
+
+-- Everything the dashboard's stats, charts, zone table and district flows need, in one round trip.
+-- Hours and weekdays are local study-area time.
+create or replace function public.research_trip_summary(p_filters jsonb)
+returns jsonb
+language sql
+stable
+as $$
+  with t as (
+    select *,
+      start_time at time zone 'Asia/Kolkata' as local_start,
+      extract(epoch from end_time - start_time) / 60 as minutes
+    from public.research_trip_matches(p_filters)
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from t),
+    'participants', (select count(distinct user_id) from t),
+    'excluded', (select count(*) from t where review_status = 'excluded'),
+    'modes', (
+      select coalesce(jsonb_agg(jsonb_build_object('mode', mode, 'count', n)), '[]')
+      from (select mode, count(*) n from t group by mode) m
+    ),
+    'purposes', (
+      select coalesce(jsonb_agg(jsonb_build_object('purpose', purpose, 'count', n, 'avg_activity_minutes', avg_minutes)), '[]')
+      from (select purpose, count(*) n, round(avg(activity_duration_minutes)) avg_minutes from t group by purpose) p
+    ),
+    'hours', (
+      select coalesce(jsonb_agg(jsonb_build_object('hour', hour, 'count', n)), '[]')
+      from (select extract(hour from local_start)::integer as hour, count(*) n from t where local_start is not null group by 1) h
+    ),
+    -- 0 is Monday, as survey reporting starts the week on Monday
+    'weekdays', (
+      select coalesce(jsonb_agg(jsonb_build_object('day', day, 'count', n)), '[]')
+      from (select extract(isodow from local_start)::integer - 1 as day, count(*) n from t where local_start is not null group by 1) w
+    ),
+    -- Index into durationBins in analytics.ts
+    'durations', (
+      select coalesce(jsonb_agg(jsonb_build_object('bin', bin, 'count', n)), '[]')
+      from (
+        select case
+            when minutes < 10 then 0 when minutes < 20 then 1 when minutes < 30 then 2 when minutes < 45 then 3
+            when minutes < 60 then 4 when minutes < 90 then 5 else 6
+          end as bin,
+          count(*) n
+        from t where minutes >= 0 group by 1
+      ) d
+    ),
+    -- Structured parties are sized here; older free-text answers come back as text for the client to parse
+    'parties', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'mode', mode, 'party_size', party_size, 'joint', joint, 'companions', companions, 'count', n
+      )), '[]')
+      from (
+        select mode,
+          case when party is not null
+            then 1 + coalesce((party ->> 'adults')::integer, 0) + coalesce((party ->> 'children')::integer, 0)
+          end party_size,
+          coalesce(jsonb_array_length(party -> 'household_members'), 0) > 0 joint,
+          case when party is null then nullif(trim(companions), '') end companions,
+          count(*) n
+        from t group by 1, 2, 3, 4
+      ) g
+    ),
+    'zones', (
+      select coalesce(jsonb_agg(jsonb_build_object('zone_id', zone_id, 'origins', origins, 'destinations', destinations)), '[]')
+      from (
+        select zone_id, sum(origins) origins, sum(destinations) destinations
+        from (
+          select origin_zone_id zone_id, 1 origins, 0 destinations from t where origin_zone_id is not null
+          union all
+          select destination_zone_id, 0, 1 from t where destination_zone_id is not null
+        ) ends
+        group by zone_id
+      ) z
+    ),
+    'districts', (
+      select coalesce(jsonb_agg(jsonb_build_object('district', district, 'origins', origins, 'destinations', destinations)), '[]')
+      from (
+        select district, sum(origins) origins, sum(destinations) destinations
+        from (
+          select origin_district district, 1 origins, 0 destinations from t where origin_district is not null
+          union all
+          select destination_district, 0, 1 from t where destination_district is not null
+        ) ends
+        group by district
+      ) d
+    ),
+    'flows', (
+      select coalesce(jsonb_agg(jsonb_build_object('origin', origin_district, 'destination', destination_district, 'mode', mode, 'count', n)), '[]')
+      from (
+        select origin_district, destination_district, mode, count(*) n from t
+        where origin_district is not null and destination_district is not null and origin_district <> destination_district
+        group by 1, 2, 3
+      ) f
+    )
+  );
+$$;
+
+-- Trip ends clustered on a lat/lon grid, limited to the visible map area when bounds are given
+create or replace function public.research_map_clusters(p_filters jsonb, p_cell_size double precision, p_bounds jsonb)
+returns jsonb
+language sql
+stable
+as $$
+  with t as (
+    select * from public.research_trip_matches(p_filters)
+  ),
+  ends as (
+    select origin_lat lat, origin_lon lon, 1 origins, 0 destinations
+    from t where origin_lat is not null and origin_lon is not null
+    union all
+    select destination_lat, destination_lon, 0, 1
+    from t where destination_lat is not null and destination_lon is not null
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'lat', lat, 'lon', lon, 'count', n, 'origins', origins, 'destinations', destinations
+  )), '[]')
+  from (
+    select avg(lat) lat, avg(lon) lon, count(*) n, sum(origins) origins, sum(destinations) destinations
+    from ends
+    where p_bounds is null or (
+      lat between (p_bounds ->> 'south')::double precision and (p_bounds ->> 'north')::double precision
+      and lon between (p_bounds ->> 'west')::double precision and (p_bounds ->> 'east')::double precision
+    )
+    group by floor(lat / p_cell_size), floor(lon / p_cell_size)
+  ) c;
+$$;
+
+-- Same label normalisation as od-matrix.ts, so grouping here never merges labels the client would keep apart
+create or replace function public.od_label(p_label text)
+returns text
+language sql
+immutable
+as $$
+  select lower(regexp_replace(trim(p_label), '\s+', ' ', 'g'));
+$$;
+
+-- Grid cells come back as their centre point, so snapping them again in the browser lands in the same cell
+create or replace function public.od_grid_centre(p_value double precision, p_cell_size double precision)
+returns double precision
+language sql
+immutable
+as $$
+  select (floor(p_value / p_cell_size) + 0.5) * p_cell_size;
+$$;
+
+-- Trips grouped by just the fields the zone scheme reads, so the OD matrix is built from a few rows per zone pair.
+-- p_scheme: { type: "label" | "mapping" | "grid" | "taz", cellSize }; p_slice: { mode, purpose, startHour, endHour }
+-- with hours in study-area time.
+create or replace function public.research_od_groups(p_filters jsonb, p_scheme jsonb, p_slice jsonb)
+returns table (
+  origin text,
+  destination text,
+  origin_place_id text,
+  destination_place_id text,
+  origin_lat double precision,
+  origin_lon double precision,
+  destination_lat double precision,
+  destination_lon double precision,
+  origin_zone_id text,
+  destination_zone_id text,
+  trips bigint
+)
+language sql
+stable
+as $$
+  with sliced as (
+    select t.*, extract(hour from t.start_time at time zone 'Asia/Kolkata')::integer as local_hour
+    from public.research_trip_matches(p_filters) t
+    where (coalesce(p_slice ->> 'mode', 'all') = 'all' or t.mode = p_slice ->> 'mode')
+      and (coalesce(p_slice ->> 'purpose', 'all') = 'all' or t.purpose = p_slice ->> 'purpose')
+  ),
+  timed as (
+    select * from sliced
+    where p_slice ->> 'startHour' is null
+      or case when (p_slice ->> 'startHour')::integer < (p_slice ->> 'endHour')::integer
+        then local_hour >= (p_slice ->> 'startHour')::integer and local_hour < (p_slice ->> 'endHour')::integer
+        else local_hour >= (p_slice ->> 'startHour')::integer or local_hour < (p_slice ->> 'endHour')::integer
+      end
+  )
+  select origin, destination, origin_place_id, destination_place_id, origin_lat, origin_lon, destination_lat,
+    destination_lon, origin_zone_id, destination_zone_id, count(*) as trips
+  from (
+    select
+      case p_scheme ->> 'type'
+        when 'taz' then null
+        when 'grid' then case when t.origin_lat is null then t.origin end
+        else public.od_label(t.origin)
+      end as origin,
+      case p_scheme ->> 'type'
+        when 'taz' then null
+        when 'grid' then case when t.destination_lat is null then t.destination end
+        else public.od_label(t.destination)
+      end as destination,
+      case when p_scheme ->> 'type' = 'label' then t.origin_place_id end as origin_place_id,
+      case when p_scheme ->> 'type' = 'label' then t.destination_place_id end as destination_place_id,
+      case when p_scheme ->> 'type' = 'grid' then public.od_grid_centre(t.origin_lat, (p_scheme ->> 'cellSize')::double precision) end as origin_lat,
+      case when p_scheme ->> 'type' = 'grid' then public.od_grid_centre(t.origin_lon, (p_scheme ->> 'cellSize')::double precision) end as origin_lon,
+      case when p_scheme ->> 'type' = 'grid' then public.od_grid_centre(t.destination_lat, (p_scheme ->> 'cellSize')::double precision) end as destination_lat,
+      case when p_scheme ->> 'type' = 'grid' then public.od_grid_centre(t.destination_lon, (p_scheme ->> 'cellSize')::double precision) end as destination_lon,
+      case when p_scheme ->> 'type' = 'taz' then t.origin_zone_id end as origin_zone_id,
+      case when p_scheme ->> 'type' = 'taz' then t.destination_zone_id end as destination_zone_id
+    from timed t
+  ) keyed
+  group by origin, destination, origin_place_id, destination_place_id, origin_lat, origin_lon, destination_lat,
+    destination_lon, origin_zone_id, destination_zone_id;
+$$;
+
+-- Person-day completion for participants matching the household filters; trip counts use every filter.
+-- Days are study-area calendar days, matching diary_days.diary_date.
+create or replace function public.research_diary_summary(p_filters jsonb)
+returns jsonb
+language sql
+stable
+as $$
+  with days as (
+    select d.*
+    from public.diary_days d
+    join public.profiles p on p.id = d.user_id
+    where public.is_research_visible(d.user_id)
+      and public.research_household_matches(
+        case when p.household_size > 0 then p.household_size end, p.household_members, p.vehicles,
+        case when p.household_size > 0 then p.income_band end, case when p.household_size > 0 then p.home_zone end,
+        p_filters
+      )
+  ),
+  due as (
+    select * from days where diary_date <= (now() at time zone 'Asia/Kolkata')::date
+  ),
+  trip_days as (
+    select user_id, (coalesce(start_time, created_at) at time zone 'Asia/Kolkata')::date diary_date, count(*) trips
+    from public.research_trip_matches(p_filters)
+    group by 1, 2
+  )
+  select jsonb_build_object(
+    'participants', (select count(distinct user_id) from days),
+    'dueDays', (select count(*) from due),
+    'respondedDays', (select count(*) from due where status <> 'assigned'),
+    'noTravelDays', (select count(*) from due where status = 'no_travel'),
+    'completedDays', (select count(*) from due where status = 'completed'),
+    'diaryTrips', (
+      select coalesce(sum(td.trips), 0)
+      from due join trip_days td on td.user_id = due.user_id and td.diary_date = due.diary_date
+      where due.status = 'completed'
+    ),
+    'reasons', (
+      select coalesce(jsonb_agg(jsonb_build_object('value', no_travel_reason, 'count', n)), '[]')
+      from (select no_travel_reason, count(*) n from due where status = 'no_travel' group by 1) r
+    )
+  );
+$$;
+
+-- All of these run with the caller's rights, so row-level security still decides which trips are seen
+revoke all on public.research_trips from anon;
+revoke execute on function public.research_trip_matches(jsonb) from public, anon;
+revoke execute on function public.research_trip_summary(jsonb) from public, anon;
+revoke execute on function public.research_map_clusters(jsonb, double precision, jsonb) from public, anon;
+revoke execute on function public.research_od_groups(jsonb, jsonb, jsonb) from public, anon;
+revoke execute on function public.research_diary_summary(jsonb) from public, anon;
+grant select on public.research_trips to authenticated;
+grant execute on function public.research_trip_matches(jsonb) to authenticated;
+grant execute on function public.research_trip_summary(jsonb) to authenticated;
+grant execute on function public.research_map_clusters(jsonb, double precision, jsonb) to authenticated;
+grant execute on function public.research_od_groups(jsonb, jsonb, jsonb) to authenticated;
+grant execute on function public.research_diary_summary(jsonb) to authenticated;
@@ -0,0 +1,18 @@
+-- One diary row per participant per day. Assigning the survey days twice (two tabs, or the panel loading
+-- twice) used to leave duplicate days behind; assignment now skips days that already exist.
+
+-- Keep the day the participant answered, if any, and drop the other copies
+delete from public.diary_days d
+using (
+  select id,
+    row_number() over (
+      partition by user_id, diary_date
+      order by (status <> 'assigned') desc, responded_at desc nulls last, id
+    ) as copy
+  from public.diary_days
+) ranked
+where d.id = ranked.id
+  and ranked.copy > 1;
+
+alter table public.diary_days
+  add constraint diary_days_user_date_key unique (user_id, diary_date);
@@ -0,0 +1,24 @@
+-- Participants only see the clarification exchange on their own trips. Reviewers' notes, corrections and
+-- manual flag reasons are internal, so trip_reviews itself is now readable by researchers alone.
+drop policy if exists "Read reviews of visible trips" on public.trip_reviews;
+
+create policy "Researchers read reviews" on public.trip_reviews
+  for select to authenticated
+  using (public.is_researcher() and exists (select 1 from public.trips where trips.id = trip_reviews.trip_id));
+
+-- Runs with the owner's rights so it can read past the policy above; the where clause is the boundary.
+-- The status is only passed on while a question is open, which is all the participant needs to know.
+create or replace view public.participant_trip_reviews as
+select
+  r.trip_id,
+  case when r.status = 'clarification_requested' then r.status end as status,
+  r.clarification_request,
+  r.clarification_response,
+  r.clarification_responded_at
+from public.trip_reviews r
+join public.trips t on t.id = r.trip_id
+where t.user_id = auth.uid()
+  and r.clarification_request is not null;
+
+revoke all on public.participant_trip_reviews from public, anon;
+grant select on public.participant_trip_reviews to authenticated;